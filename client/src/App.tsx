@@ -7,6 +7,11 @@ import { useAuth } from "@/hooks/useAuth";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Game from "@/pages/game";
+import Join from "@/pages/join";
+import Lobby from "@/pages/lobby";
+import Leaderboard from "@/pages/leaderboard";
+import Profile from "@/pages/profile";
+import History from "@/pages/history";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,6 +22,11 @@ function Router() {
       {/* Always available routes */}
       <Route path="/guest-play" component={Home} />
       <Route path="/game/:id" component={Game} />
+      <Route path="/join/:code" component={Join} />
+      <Route path="/lobby" component={Lobby} />
+      <Route path="/leaderboard" component={Leaderboard} />
+      <Route path="/profile/:userId" component={Profile} />
+      <Route path="/games" component={History} />
       
       {/* Conditional routes based on auth */}
       {isLoading ? (
@@ -1,34 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { X, Download } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import EvaluationGraph from '@/components/EvaluationGraph';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  DEFAULT_ANALYSIS_DEPTH,
+  decodeEvaluation,
+  formatEvaluation,
+  isAnalysisJobFinished,
+  type MoveClassification,
+  type StoredGameAnalysis,
+} from '@shared/analysis';
+import type { AnalysisJob } from '@shared/schema';
+
+const DEPTHS = [10, DEFAULT_ANALYSIS_DEPTH, 20];
+
+const CLASSIFICATION_STYLES: Record<MoveClassification, string> = {
+  book: 'bg-muted-foreground text-background',
+  brilliant: 'bg-cyan-500 text-white',
+  great: 'bg-blue-500 text-white',
+  best: 'bg-green-500 text-white',
+  excellent: 'bg-green-500 text-white',
+  good: 'bg-green-500 text-white',
+  inaccuracy: 'bg-yellow-500 text-black',
+  mistake: 'bg-orange-500 text-white',
+  miss: 'bg-red-400 text-white',
+  blunder: 'bg-destructive text-destructive-foreground',
+};
+
+// Moves keep their evaluation as text from White's side; anything unreadable is shown as it is
+function formatMoveEvaluation(text: string): string {
+  const evaluation = decodeEvaluation(text);
+  return evaluation ? formatEvaluation(evaluation) : text;
+}
 
 interface AnalysisModalProps {
   gameId: string;
   onClose: () => void;
+  onSelectPly?: (ply: number) => void; // shows the position after this ply (1 for White's first move) on the board
 }
 
-export default function AnalysisModal({ gameId, onClose }: AnalysisModalProps) {
+export default function AnalysisModal({ gameId, onClose, onSelectPly }: AnalysisModalProps) {
   const { toast } = useToast();
+  const [selectedPly, setSelectedPly] = useState<number | null>(null);
+  const moveListRef = useRef<HTMLDivElement>(null);
+  const { subscribe } = useWebSocket();
+  const [depth, setDepth] = useState(DEFAULT_ANALYSIS_DEPTH);
+  const jobKey = ['/api/games', gameId, 'analysis', 'job'];
 
   // Check if analysis exists
-  const { data: existingAnalysis, isLoading: isLoadingAnalysis } = useQuery({
+  const { data: existingAnalysis, isLoading: isLoadingAnalysis } = useQuery<StoredGameAnalysis>({
     queryKey: ['/api/games', gameId, 'analysis'],
   });
 
-  // Create analysis mutation
+  // The latest analysis job, so a running one is picked up again after reopening
+  const { data: job } = useQuery<AnalysisJob>({
+    queryKey: jobKey,
+  });
+  const isRunning = !!job && !isAnalysisJobFinished(job.status);
+
+  // The server pushes the job's progress after every analysed ply
+  useEffect(() => {
+    const unsubscribers = [
+      subscribe('analysis_progress', (data: { job: AnalysisJob }) => {
+        if (data.job.gameId !== gameId) return;
+        queryClient.setQueryData(jobKey, data.job);
+      }),
+      subscribe('analysis_complete', (data: { job: AnalysisJob }) => {
+        if (data.job.gameId !== gameId) return;
+        queryClient.setQueryData(jobKey, data.job);
+        if (data.job.status === 'completed') {
+          queryClient.invalidateQueries({ queryKey: ['/api/games', gameId, 'analysis'] });
+          toast({
+            title: "Analysis Complete",
+            description: "Game analysis has been generated successfully",
+          });
+        } else if (data.job.status === 'failed') {
+          toast({
+            title: "Analysis Failed",
+            description: "Could not analyze the game",
+            variant: "destructive",
+          });
+        }
+      }),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [gameId]);
+
+  // Queue an analysis; the result arrives over the WebSocket
   const analyzeGameMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest('POST', `/api/games/${gameId}/analyze`, {});
-      return res.json();
+      const res = await apiRequest('POST', `/api/games/${gameId}/analyze`, { depth });
+      return res.json() as Promise<AnalysisJob>;
     },
-    onSuccess: () => {
-      toast({
-        title: "Analysis Complete",
-        description: "Game analysis has been generated successfully",
-      });
+    onSuccess: (queuedJob) => {
+      queryClient.setQueryData(jobKey, queuedJob);
     },
     onError: () => {
       toast({
@@ -39,6 +111,16 @@ export default function AnalysisModal({ gameId, onClose }: AnalysisModalProps) {
     },
   });
 
+  const cancelAnalysisMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', `/api/games/${gameId}/analysis/job`);
+      return res.json() as Promise<AnalysisJob>;
+    },
+    onSuccess: (cancelledJob) => {
+      queryClient.setQueryData(jobKey, cancelledJob);
+    },
+  });
+
   const handleAnalyze = () => {
     analyzeGameMutation.mutate();
   };
@@ -67,6 +149,38 @@ export default function AnalysisModal({ gameId, onClose }: AnalysisModalProps) {
 
   const analysis = existingAnalysis?.analysis;
   const moves = existingAnalysis?.moves || [];
+  // Analyses from before the graph knew its moves can't be drawn
+  const evaluationGraph = (analysis?.evaluationGraph || []).filter(point => point.san);
+
+  const selectPly = (ply: number) => {
+    setSelectedPly(ply);
+    moveListRef.current?.querySelector(`[data-ply="${ply}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    onSelectPly?.(ply);
+  };
+
+  // Choosing a depth and (re-)analysing at it
+  const analyzeControls = (
+    <div className="flex items-center justify-center space-x-2">
+      <Select value={depth.toString()} onValueChange={(value) => setDepth(Number(value))}>
+        <SelectTrigger className="w-32" data-testid="select-analysis-depth">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DEPTHS.map(option => (
+            <SelectItem key={option} value={option.toString()}>Depth {option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        onClick={handleAnalyze}
+        disabled={analyzeGameMutation.isPending}
+        data-testid="button-analyze-game"
+        className="bg-primary hover:bg-primary/90"
+      >
+        {analysis ? 'Re-analyze' : 'Analyze Game'}
+      </Button>
+    </div>
+  );
 
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4" data-testid="analysis-modal">
@@ -98,56 +212,72 @@ export default function AnalysisModal({ gameId, onClose }: AnalysisModalProps) {
           <div className="lg:col-span-8 p-6">
             <div className="space-y-4">
               
-              {!analysis && !analyzeGameMutation.isPending && (
+              {!analysis && !isRunning && (
                 <div className="text-center py-12">
                   <div className="space-y-4">
                     <div className="text-xl font-semibold">Game Analysis</div>
                     <p className="text-muted-foreground">
                       Analyze this game to get detailed insights, move classifications, and improvement suggestions.
                     </p>
-                    <Button 
-                      onClick={handleAnalyze}
-                      disabled={analyzeGameMutation.isPending}
-                      data-testid="button-analyze-game"
-                      className="bg-primary hover:bg-primary/90"
-                    >
-                      {analyzeGameMutation.isPending ? 'Analyzing...' : 'Analyze Game'}
-                    </Button>
+                    {analyzeControls}
                   </div>
                 </div>
               )}
 
-              {analyzeGameMutation.isPending && (
+              {isRunning && job && (
                 <div className="text-center py-12">
-                  <div className="space-y-4">
+                  <div className="space-y-4 max-w-md mx-auto">
                     <div className="text-xl font-semibold">Analyzing Game...</div>
-                    <p className="text-muted-foreground">
-                      Please wait while we analyze your game with Stockfish engine.
+                    <p className="text-muted-foreground" data-testid="text-analysis-progress">
+                      {job.status === 'queued'
+                        ? 'Waiting for the engine...'
+                        : `Move ${job.pliesDone} of ${job.totalPlies} at depth ${job.depth}`}
                     </p>
-                    <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto"></div>
+                    <Progress value={job.totalPlies > 0 ? (job.pliesDone / job.totalPlies) * 100 : 0} />
+                    <Button
+                      variant="outline"
+                      onClick={() => cancelAnalysisMutation.mutate()}
+                      disabled={cancelAnalysisMutation.isPending}
+                      data-testid="button-cancel-analysis"
+                    >
+                      Cancel
+                    </Button>
                   </div>
                 </div>
               )}
 
-              {analysis && (
+              {analysis && !isRunning && (
                 <>
                   {/* Game Result */}
                   <div className="bg-green-500/20 border border-green-500/30 rounded-lg p-4">
-                    <div className="flex items-center justify-center space-x-4">
-                      <span className="text-lg font-semibold">Analysis Complete</span>
-                      <span className="text-muted-foreground">Game analyzed successfully</span>
+                    <div className="flex items-center justify-between space-x-4">
+                      <div className="flex items-center space-x-4">
+                        <span className="text-lg font-semibold">Analysis Complete</span>
+                        <span className="text-muted-foreground">
+                          {job?.status === 'completed' ? `Analysed at depth ${job.depth}` : 'Game analyzed successfully'}
+                        </span>
+                      </div>
+                      {analyzeControls}
                     </div>
                   </div>
                   
-                  {/* Evaluation Graph Placeholder */}
+                  {/* Evaluation Graph */}
                   <Card>
                     <CardContent className="p-4">
                       <h3 className="font-semibold mb-4">Position Evaluation Over Time</h3>
-                      <div className="h-40 bg-muted border border-border rounded flex items-center justify-center">
-                        <span className="text-muted-foreground">
-                          Evaluation graph would be rendered here with position scores
-                        </span>
-                      </div>
+                      {evaluationGraph.length > 0 ? (
+                        <EvaluationGraph
+                          points={evaluationGraph}
+                          selectedPly={selectedPly}
+                          onSelectPly={selectPly}
+                        />
+                      ) : (
+                        <div className="h-40 bg-muted border border-border rounded flex items-center justify-center">
+                          <span className="text-muted-foreground">
+                            Re-analyze this game to see its evaluation graph
+                          </span>
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 </>
@@ -182,13 +312,13 @@ export default function AnalysisModal({ gameId, onClose }: AnalysisModalProps) {
                         <div className="flex justify-between">
                           <span className="text-sm">Accuracy (White)</span>
                           <span className="text-sm font-medium" data-testid="text-white-accuracy">
-                            {analysis.whiteAccuracy}%
+                            {analysis.whiteAccuracy ?? '--'}%
                           </span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-sm">Accuracy (Black)</span>
                           <span className="text-sm font-medium" data-testid="text-black-accuracy">
-                            {analysis.blackAccuracy}%
+                            {analysis.blackAccuracy ?? '--'}%
                           </span>
                         </div>
                         <div className="flex justify-between">
@@ -216,25 +346,34 @@ export default function AnalysisModal({ gameId, onClose }: AnalysisModalProps) {
                   {/* Move Analysis */}
                   <div>
                     <h3 className="font-semibold mb-4">Move Analysis</h3>
-                    <div className="space-y-3 max-h-96 overflow-y-auto">
-                      {moves.map((move: any, index: number) => (
-                        <div key={index} className="p-3 bg-muted rounded-md">
+                    <div ref={moveListRef} className="space-y-3 max-h-96 overflow-y-auto">
+                      {moves.map((move, index) => (
+                        <div
+                          key={index}
+                          data-ply={index + 1}
+                          className={`p-3 rounded-md cursor-pointer ${selectedPly === index + 1 ? 'bg-primary/20' : 'bg-muted hover:bg-muted/70'}`}
+                          onClick={() => selectPly(index + 1)}
+                        >
                           <div className="flex justify-between items-center mb-2">
                             <span className="font-mono" data-testid={`move-san-${index}`}>
                               {move.moveNumber}. {move.san}
                             </span>
                             <span className={`text-xs px-2 py-1 rounded-full ${
-                              move.classification === 'blunder' ? 'bg-destructive text-destructive-foreground' :
-                              move.classification === 'mistake' ? 'bg-orange-500 text-white' :
-                              move.classification === 'inaccuracy' ? 'bg-yellow-500 text-black' :
-                              'bg-green-500 text-white'
+                              CLASSIFICATION_STYLES[move.classification as MoveClassification] ?? 'bg-green-500 text-white'
                             }`}>
                               {move.classification}
                             </span>
                           </div>
-                          <div className="text-sm text-muted-foreground">
-                            Evaluation: {move.evaluation}
-                          </div>
+                          {move.evaluation && (
+                            <div className="text-sm text-muted-foreground">
+                              Evaluation: {formatMoveEvaluation(move.evaluation)}
+                            </div>
+                          )}
+                          {move.accuracy != null && (
+                            <div className="text-sm text-muted-foreground" data-testid={`move-accuracy-${index}`}>
+                              Accuracy: {Math.round(move.accuracy)}%
+                            </div>
+                          )}
                           {move.bestMove && (
                             <div className="text-sm mt-1">
                               <strong>Best:</strong> <span className="font-mono">{move.bestMove}</span>
@@ -1,5 +1,5 @@
-import { useCallback } from 'react';
-import { ChessSquare } from '@/hooks/useChessGame';
+import { useCallback, useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+import { ChessSquare, PendingPromotion, PromotionPiece } from '@/hooks/useChessGame';
 import { cn } from '@/lib/utils';
 
 interface ChessBoardProps {
@@ -9,6 +9,11 @@ interface ChessBoardProps {
   isSquarePossibleMove: (square: string) => boolean;
   isSquareLight: (square: string) => boolean;
   playerColor: 'white' | 'black';
+  getLegalTargets?: (square: string) => string[];
+  onPieceDrop?: (from: string, to: string) => boolean; // false when the move is illegal
+  pendingPromotion?: PendingPromotion | null;
+  onPromotionSelect?: (piece: PromotionPiece) => void;
+  onPromotionCancel?: () => void;
 }
 
 const pieceUnicode: { [key: string]: string } = {
@@ -16,13 +21,48 @@ const pieceUnicode: { [key: string]: string } = {
   'bK': '♚', 'bQ': '♛', 'bR': '♜', 'bB': '♝', 'bN': '♞', 'bP': '♟'
 };
 
+interface DragState {
+  from: string;
+  piece: { color: string; type: string };
+  targets: string[];
+  pointerId: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  size: number;
+  active: boolean; // the pointer moved far enough to count as a drag rather than a click
+  snapBack: boolean;
+}
+
+// Pointer travel (px) before a press on a piece becomes a drag
+const DRAG_THRESHOLD = 4;
+const SNAP_BACK_MS = 150;
+
+function squareFromPoint(x: number, y: number): string | null {
+  const element = document.elementFromPoint(x, y)?.closest('[data-square]');
+  return element?.getAttribute('data-square') || null;
+}
+
+const promotionPieces: { piece: PromotionPiece; name: string }[] = [
+  { piece: 'q', name: 'Queen' },
+  { piece: 'r', name: 'Rook' },
+  { piece: 'b', name: 'Bishop' },
+  { piece: 'n', name: 'Knight' },
+];
+
 export default function ChessBoard({
   boardState,
   onSquareClick,
   isSquareSelected,
   isSquarePossibleMove,
   isSquareLight,
-  playerColor
+  playerColor,
+  getLegalTargets,
+  onPieceDrop,
+  pendingPromotion,
+  onPromotionSelect,
+  onPromotionCancel
 }: ChessBoardProps) {
   
   const renderPiece = useCallback((piece: any) => {
@@ -41,6 +81,94 @@ export default function ChessBoard({
     );
   }, []);
 
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [hoverSquare, setHoverSquare] = useState<string | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  dragRef.current = drag;
+
+  const isDragTarget = useCallback((square: string) => {
+    return !!drag?.active && !drag.snapBack && drag.targets.includes(square);
+  }, [drag]);
+
+  const handlePointerDown = useCallback((event: ReactPointerEvent<HTMLDivElement>, square: string, piece: any) => {
+    if (!getLegalTargets || !onPieceDrop || event.button !== 0 || dragRef.current) return;
+    const targets = getLegalTargets(square);
+    if (targets.length === 0) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    setDrag({
+      from: square,
+      piece,
+      targets,
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
+      size: rect.width,
+      active: false,
+      snapBack: false,
+    });
+  }, [getLegalTargets, onPieceDrop]);
+
+  // Follow the pointer on the window so a drag survives leaving the board
+  useEffect(() => {
+    if (!drag || drag.snapBack) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current || event.pointerId !== current.pointerId) return;
+      const moved = Math.hypot(event.clientX - current.startX, event.clientY - current.startY);
+      if (!current.active && moved < DRAG_THRESHOLD) return;
+
+      event.preventDefault();
+      setDrag({ ...current, active: true, x: event.clientX, y: event.clientY });
+      setHoverSquare(squareFromPoint(event.clientX, event.clientY));
+    };
+
+    const handleUp = (event: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current || event.pointerId !== current.pointerId) return;
+      setHoverSquare(null);
+
+      // A press without movement is a click, which the square's onClick handles
+      if (!current.active) {
+        setDrag(null);
+        return;
+      }
+
+      const target = squareFromPoint(event.clientX, event.clientY);
+      if (target && target !== current.from && onPieceDrop?.(current.from, target)) {
+        setDrag(null);
+        return;
+      }
+
+      // Illegal drop: glide the piece back to where it came from
+      const origin = document.querySelector(`[data-square="${current.from}"]`)?.getBoundingClientRect();
+      if (!origin) {
+        setDrag(null);
+        return;
+      }
+      setDrag({ ...current, snapBack: true, x: origin.left + origin.width / 2, y: origin.top + origin.height / 2 });
+      setTimeout(() => setDrag(null), SNAP_BACK_MS);
+    };
+
+    const handleCancel = (event: PointerEvent) => {
+      if (event.pointerId !== dragRef.current?.pointerId) return;
+      setHoverSquare(null);
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove, { passive: false });
+    window.addEventListener('pointerup', handleUp);
+    window.addEventListener('pointercancel', handleCancel);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+      window.removeEventListener('pointercancel', handleCancel);
+    };
+  }, [drag?.from, drag?.pointerId, drag?.snapBack, onPieceDrop]);
+
   const getSquareClasses = useCallback((square: string) => {
     return cn(
       "chess-square relative cursor-pointer transition-all duration-200",
@@ -48,9 +176,10 @@ export default function ChessBoard({
       isSquareLight(square) ? "bg-[#f0d9b5]" : "bg-[#b58863]",
       isSquareSelected(square) && "ring-4 ring-secondary",
       isSquarePossibleMove(square) && "ring-2 ring-primary ring-opacity-60",
+      isDragTarget(square) && hoverSquare === square && "ring-4 ring-primary",
       "hover:ring-2 hover:ring-primary hover:ring-opacity-40"
     );
-  }, [isSquareLight, isSquareSelected, isSquarePossibleMove]);
+  }, [isSquareLight, isSquareSelected, isSquarePossibleMove, isDragTarget, hoverSquare]);
 
   // Create board layout based on player color
   const createBoardLayout = useCallback(() => {
@@ -85,7 +214,7 @@ export default function ChessBoard({
       </div>
 
       {/* Chess Board */}
-      <div className="border-2 border-border rounded-md overflow-hidden">
+      <div className="relative border-2 border-border rounded-md overflow-hidden">
         {boardLayout.map((row, rowIndex) => (
           <div key={rowIndex} className="flex">
             {/* Rank label */}
@@ -99,31 +228,96 @@ export default function ChessBoard({
                 key={square}
                 className={getSquareClasses(square)}
                 onClick={() => onSquareClick(square)}
+                data-square={square}
                 data-testid={`square-${square}`}
               >
                 {piece && (
-                  <div className="chess-piece w-full h-full flex items-center justify-center user-select-none cursor-grab active:cursor-grabbing">
+                  <div
+                    className={cn(
+                      "chess-piece w-full h-full flex items-center justify-center user-select-none cursor-grab active:cursor-grabbing",
+                      drag?.active && drag.from === square && "opacity-30"
+                    )}
+                    onPointerDown={(event) => handlePointerDown(event, square, piece)}
+                  >
                     {renderPiece(piece)}
                   </div>
                 )}
                 
                 {/* Possible move indicator */}
-                {isSquarePossibleMove(square) && !piece && (
+                {(isSquarePossibleMove(square) || isDragTarget(square)) && !piece && (
                   <div className="absolute inset-0 flex items-center justify-center">
                     <div className="w-4 h-4 bg-primary rounded-full opacity-60"></div>
                   </div>
                 )}
                 
                 {/* Attack indicator for possible moves with pieces */}
-                {isSquarePossibleMove(square) && piece && (
+                {(isSquarePossibleMove(square) || isDragTarget(square)) && piece && (
                   <div className="absolute inset-0 border-4 border-destructive rounded-full opacity-60"></div>
                 )}
               </div>
             ))}
           </div>
         ))}
+
+        {/* Promotion picker */}
+        {pendingPromotion && (
+          <div
+            className="absolute inset-0 z-10 flex items-center justify-center bg-black/50"
+            onClick={onPromotionCancel}
+            data-testid="promotion-dialog"
+          >
+            <div
+              className="bg-card border border-border rounded-lg p-4 shadow-lg"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="text-sm font-medium text-center mb-3">
+                Promote on {pendingPromotion.to} to:
+              </div>
+              <div className="flex space-x-2">
+                {promotionPieces.map(({ piece, name }) => (
+                  <button
+                    key={piece}
+                    onClick={() => onPromotionSelect?.(piece)}
+                    className="w-[60px] h-[60px] md:w-[70px] md:h-[70px] rounded-md bg-[#f0d9b5] hover:ring-2 hover:ring-primary flex items-center justify-center"
+                    title={name}
+                    data-testid={`button-promote-${piece}`}
+                  >
+                    {renderPiece({ color: pendingPromotion.color, type: piece })}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={onPromotionCancel}
+                className="w-full mt-3 text-sm text-muted-foreground hover:text-foreground"
+                data-testid="button-promote-cancel"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Piece following the pointer while dragging */}
+      {drag?.active && (
+        <div
+          className={cn(
+            "chess-drag-ghost fixed z-50 pointer-events-none flex items-center justify-center",
+            drag.snapBack && "transition-all ease-out"
+          )}
+          style={{
+            left: drag.x - drag.size / 2,
+            top: drag.y - drag.size / 2,
+            width: drag.size,
+            height: drag.size,
+            transitionDuration: drag.snapBack ? `${SNAP_BACK_MS}ms` : undefined,
+          }}
+          data-testid="drag-ghost"
+        >
+          {renderPiece(drag.piece)}
+        </div>
+      )}
+
       {/* Mobile move input */}
       <div className="mt-4 md:hidden">
         <input 
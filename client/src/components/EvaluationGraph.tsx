@@ -0,0 +1,108 @@
+import { Area, AreaChart, CartesianGrid, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { formatEvaluation, type EvaluationPoint, type MoveClassification } from '@shared/analysis';
+
+// Evaluations are clamped to this many pawns, so one big swing doesn't flatten the rest of the game
+const MAX_PAWNS = 10;
+
+// Moves marked on the graph, and their colours
+const MARKERS: Partial<Record<MoveClassification, string>> = {
+  blunder: 'hsl(var(--destructive))',
+  mistake: '#f97316',
+  miss: '#f87171',
+};
+
+const chartConfig = {
+  value: { label: 'Evaluation', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+interface ChartPoint {
+  ply: number;
+  value: number;
+  point: EvaluationPoint;
+}
+
+// Sign of a mate from White's side; a mate already on the board was delivered by the mover
+function mateSign(point: EvaluationPoint): number {
+  if (point.mate === 0) return point.side === 'w' ? 1 : -1;
+  return Math.sign(point.mate ?? 0);
+}
+
+function toChartPoint(point: EvaluationPoint): ChartPoint {
+  const value = point.mate !== undefined
+    ? mateSign(point) * MAX_PAWNS
+    : Math.max(-MAX_PAWNS, Math.min(MAX_PAWNS, point.evaluation));
+  return { ply: point.move, value, point };
+}
+
+function moveLabel(point: EvaluationPoint): string {
+  const number = Math.ceil(point.move / 2);
+  return point.side === 'w' ? `${number}. ${point.san}` : `${number}... ${point.san}`;
+}
+
+interface EvaluationGraphProps {
+  points: EvaluationPoint[];
+  selectedPly: number | null;
+  onSelectPly: (ply: number) => void;
+}
+
+// Evaluation after every ply from White's side, with the worst moves marked
+export default function EvaluationGraph({ points, selectedPly, onSelectPly }: EvaluationGraphProps) {
+  const data = points.map(toChartPoint);
+
+  return (
+    <ChartContainer config={chartConfig} className="h-48 w-full" data-testid="evaluation-graph">
+      <AreaChart
+        data={data}
+        margin={{ top: 8, right: 8, bottom: 0, left: -24 }}
+        onClick={(state) => {
+          if (state?.activeLabel !== undefined) onSelectPly(Number(state.activeLabel));
+        }}
+      >
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis dataKey="ply" tickLine={false} axisLine={false} minTickGap={24} />
+        <YAxis domain={[-MAX_PAWNS, MAX_PAWNS]} ticks={[-MAX_PAWNS, -5, 0, 5, MAX_PAWNS]} tickLine={false} axisLine={false} />
+        <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+        {selectedPly !== null && (
+          <ReferenceLine x={selectedPly} stroke="hsl(var(--primary))" strokeDasharray="4 2" />
+        )}
+        <ChartTooltip
+          content={({ active, payload }) => {
+            if (!active || !payload?.length) return null;
+            const { point } = payload[0].payload as ChartPoint;
+            return (
+              <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                <div className="font-mono font-medium">{moveLabel(point)}</div>
+                <div className="text-muted-foreground">
+                  {formatEvaluation(point)} · <span className="capitalize">{point.classification}</span>
+                </div>
+              </div>
+            );
+          }}
+        />
+        <Area
+          dataKey="value"
+          type="monotone"
+          baseValue={0}
+          stroke="var(--color-value)"
+          fill="var(--color-value)"
+          fillOpacity={0.3}
+          isAnimationActive={false}
+          className="cursor-pointer"
+        />
+        {data
+          .filter(({ point }) => MARKERS[point.classification])
+          .map(({ ply, value, point }) => (
+            <ReferenceDot
+              key={ply}
+              x={ply}
+              y={value}
+              r={4}
+              fill={MARKERS[point.classification]}
+              stroke="hsl(var(--background))"
+            />
+          ))}
+      </AreaChart>
+    </ChartContainer>
+  );
+}
@@ -1,21 +1,64 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Game } from '@shared/schema';
-import { useState } from 'react';
+import { Game, RatingChange } from '@shared/schema';
+import { useEffect, useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest, getErrorMessage } from '@/lib/queryClient';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useGameClock } from '@/hooks/useGameClock';
+import { formatTimeControl } from '@shared/timeControl';
+import { getTakebacksLeft } from '@shared/takeback';
+import { getOpponentColor, isAIGame, type PlayerColor } from '@shared/players';
+
+interface Hint {
+  level: 1 | 2 | 3;
+  fen: string;
+  from: string;
+  piece: string;
+  to?: string;
+  move?: string;
+  pv?: string[];
+  score?: number; // pawns for the player
+  mate?: number;
+}
+
+const pieceNames: { [key: string]: string } = {
+  p: 'pawn', n: 'knight', b: 'bishop', r: 'rook', q: 'queen', k: 'king'
+};
+
+const describeHint = (hint: Hint) => {
+  const piece = pieceNames[hint.piece] || 'piece';
+  if (hint.level === 1) return `Look at your ${piece} on ${hint.from}`;
+  if (hint.level === 2) return `Move your ${piece} from ${hint.from} to ${hint.to}`;
+  const evaluation = hint.mate !== undefined
+    ? `mate in ${Math.abs(hint.mate)}`
+    : `${hint.score! > 0 ? '+' : ''}${hint.score!.toFixed(2)}`;
+  return `Best is ${hint.move} (${evaluation})`;
+};
 
 interface GameControlsProps {
   game: Game;
+  playerColor: PlayerColor; // the side this browser plays
   onGameUpdate?: (updatedGame: Game) => void;
 }
 
-export default function GameControls({ game, onGameUpdate }: GameControlsProps) {
+export default function GameControls({ game, playerColor, onGameUpdate }: GameControlsProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [aiDifficulty, setAiDifficulty] = useState(game.aiDifficulty.toString());
+  const clock = useGameClock(game);
+  const [hint, setHint] = useState<Hint | null>(null);
+
+  const { data: ratingChanges = [] } = useQuery<RatingChange[]>({
+    queryKey: ['/api/games', game.id, 'ratings'],
+    enabled: game.status === 'completed' && !!game.rated,
+  });
+
+  // A hint only applies to the position it was given for
+  useEffect(() => {
+    setHint(null);
+  }, [game.currentFen]);
 
   const resignMutation = useMutation({
     mutationFn: async () => {
@@ -62,9 +105,12 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
       return res.json();
     },
     onSuccess: (data) => {
+      const accepted = data.result === '1/2-1/2';
       toast({
-        title: "Draw Accepted",
-        description: "Draw offer accepted by AnveshAI",
+        title: accepted ? "Draw Accepted" : "Draw Offered",
+        description: accepted
+          ? isAIGame(game) ? "Draw offer accepted by AnveshAI" : "The game is drawn"
+          : "Waiting for your opponent to answer",
       });
       // Update the game state
       if (onGameUpdate && data.game) {
@@ -82,6 +128,23 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
     }
   });
 
+  const declineDrawMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/games/${game.id}/decline-draw`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/games', game.id] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to decline draw",
+        variant: "destructive",
+      });
+    }
+  });
+
   const handleOfferDraw = () => {
     if (game.status !== 'active') {
       toast({
@@ -94,31 +157,87 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
     drawOfferMutation.mutate();
   };
 
+  const takebackMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/games/${game.id}/takeback`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Move Taken Back",
+        description: data.takebacksLeft === null
+          ? "Your last move has been taken back"
+          : `Your last move has been taken back (${data.takebacksLeft} left)`,
+      });
+      if (onGameUpdate && data.game) {
+        onGameUpdate(data.game);
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/games', game.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games', game.id, 'moves'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to take back move"),
+        variant: "destructive",
+      });
+    }
+  });
+
+  const hintMutation = useMutation({
+    mutationFn: async (level: number) => {
+      const res = await apiRequest('POST', `/api/games/${game.id}/hint`, { level });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      setHint(data.hint);
+      queryClient.invalidateQueries({ queryKey: ['/api/games', game.id] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to get a hint"),
+        variant: "destructive",
+      });
+    }
+  });
+
   const handleNewGame = () => {
     window.location.href = '/';
   };
 
   const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
+    // Show tenths once time gets short
+    if (seconds < 10) {
+      return `0:0${(Math.floor(seconds * 10) / 10).toFixed(1)}`;
+    }
+    const whole = Math.floor(seconds);
+    const mins = Math.floor(whole / 60);
+    const secs = whole % 60;
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
   const getPlayerInfo = () => {
-    if (game.playerColor === 'white') {
+    if (playerColor === 'white') {
       return {
-        player: { color: 'white', symbol: '♔', time: game.whiteTimeLeft },
-        ai: { color: 'black', symbol: '♚', time: game.blackTimeLeft }
+        player: { color: 'white', symbol: '♔', time: clock.whiteTimeLeft },
+        ai: { color: 'black', symbol: '♚', time: clock.blackTimeLeft }
       };
     } else {
       return {
-        player: { color: 'black', symbol: '♚', time: game.blackTimeLeft },
-        ai: { color: 'white', symbol: '♔', time: game.whiteTimeLeft }
+        player: { color: 'black', symbol: '♚', time: clock.blackTimeLeft },
+        ai: { color: 'white', symbol: '♔', time: clock.whiteTimeLeft }
       };
     }
   };
 
   const { player, ai } = getPlayerInfo();
+  const isPlayerTurn = clock.turn === playerColor;
+  const takebacksLeft = getTakebacksLeft(game);
+  const isAIOpponent = isAIGame(game);
+  const opponentName = isAIOpponent ? 'AnveshAI' : 'Opponent';
+  const drawOfferedByOpponent = game.drawOfferedBy === getOpponentColor(playerColor);
+  const drawOfferedByPlayer = game.drawOfferedBy === playerColor;
 
   return (
     <div className="space-y-6">
@@ -139,10 +258,24 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
           </div>
 
           {/* AI Difficulty Display */}
+          {isAIOpponent && (
+            <div className="space-y-3">
+              <label className="text-sm font-medium">AnveshAI Difficulty:</label>
+              <div className="p-3 bg-muted rounded-md">
+                <span className="font-mono">{game.aiDifficulty} ELO</span>
+              </div>
+            </div>
+          )}
+
+          {/* Time Control Display */}
           <div className="space-y-3">
-            <label className="text-sm font-medium">AnveshAI Difficulty:</label>
+            <label className="text-sm font-medium">Time Control:</label>
             <div className="p-3 bg-muted rounded-md">
-              <span className="font-mono">{game.aiDifficulty} ELO</span>
+              <span className="font-mono" data-testid="text-time-control">
+                {game.timeControlSpec
+                  ? formatTimeControl(game.timeControlSpec)
+                  : game.timeControl ? `${Math.round(game.timeControl / 60)} min` : 'Untimed'}
+              </span>
             </div>
           </div>
 
@@ -168,12 +301,66 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
               variant="outline" 
               className="w-full" 
               onClick={handleOfferDraw}
-              disabled={drawOfferMutation.isPending || game.status !== 'active'}
+              disabled={drawOfferMutation.isPending || game.status !== 'active' || drawOfferedByPlayer}
               data-testid="button-offer-draw"
             >
-              {drawOfferMutation.isPending ? 'Offering...' : 'Offer Draw'}
+              {drawOfferMutation.isPending
+                ? 'Offering...'
+                : drawOfferedByOpponent ? 'Accept Draw' : drawOfferedByPlayer ? 'Draw Offered' : 'Offer Draw'}
             </Button>
+            {drawOfferedByOpponent && game.status === 'active' && (
+              <Button 
+                variant="ghost" 
+                className="w-full" 
+                onClick={() => declineDrawMutation.mutate()}
+                disabled={declineDrawMutation.isPending}
+                data-testid="button-decline-draw"
+              >
+                Decline Draw
+              </Button>
+            )}
+            {takebacksLeft !== 0 && (
+              <Button 
+                variant="outline" 
+                className="w-full" 
+                onClick={() => takebackMutation.mutate()}
+                disabled={takebackMutation.isPending || game.status !== 'active' || !isPlayerTurn}
+                data-testid="button-takeback"
+              >
+                {takebackMutation.isPending
+                  ? 'Taking back...'
+                  : takebacksLeft === null ? 'Take Back' : `Take Back (${takebacksLeft} left)`}
+              </Button>
+            )}
+            {isAIOpponent && !game.rated && (
+              <Button 
+                variant="outline" 
+                className="w-full" 
+                onClick={() => hintMutation.mutate(hint ? hint.level + 1 : 1)}
+                disabled={hintMutation.isPending || game.status !== 'active' || !isPlayerTurn || hint?.level === 3}
+                data-testid="button-hint"
+              >
+                {hintMutation.isPending ? 'Thinking...' : hint && hint.level < 3 ? 'More of the Hint' : 'Hint'}
+              </Button>
+            )}
           </div>
+
+          {/* Current hint */}
+          {hint && hint.fen === game.currentFen && (
+            <div className="p-3 bg-muted rounded-md space-y-1" data-testid="hint">
+              <div className="text-sm" data-testid="text-hint">{describeHint(hint)}</div>
+              {hint.pv && hint.pv.length > 1 && (
+                <div className="text-xs text-muted-foreground font-mono truncate" data-testid="text-hint-line">
+                  {hint.pv.join(' ')}
+                </div>
+              )}
+            </div>
+          )}
+          {isAIOpponent && !game.rated && (game.hintsUsed ?? 0) > 0 && (
+            <div className="text-xs text-muted-foreground text-center" data-testid="text-hints-used">
+              Hints used: {game.hintsUsed}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -210,8 +397,8 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
                   {ai.color === 'white' ? 'W' : 'B'}
                 </div>
                 <div>
-                  <div className="font-medium">AnveshAI</div>
-                  <div className="text-sm text-muted-foreground">AI Opponent</div>
+                  <div className="font-medium">{opponentName}</div>
+                  <div className="text-sm text-muted-foreground">{isAIOpponent ? 'AI Opponent' : 'Human Opponent'}</div>
                 </div>
               </div>
               <div className="text-right">
@@ -219,7 +406,9 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
                   {formatTime(ai.time || 0)}
                 </div>
                 <div className="text-sm text-secondary">
-                  {game.status === 'active' ? 'Ready' : 'Thinking...'}
+                  {game.status === 'waiting'
+                    ? 'Not joined yet'
+                    : game.status === 'active' && !isPlayerTurn ? 'Thinking...' : 'Ready'}
                 </div>
               </div>
             </div>
@@ -229,9 +418,37 @@ export default function GameControls({ game, onGameUpdate }: GameControlsProps)
           <div className="text-center">
             <span className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-primary/20 text-primary" data-testid="text-current-turn">
               <span className="mr-2">⏰</span>
-              {game.status === 'active' ? 'Your turn' : 'Game Over'}
+              {game.status === 'waiting'
+                ? 'Waiting for opponent'
+                : game.status !== 'active' ? 'Game Over' : isPlayerTurn ? 'Your turn' : `${opponentName}'s turn`}
             </span>
           </div>
+
+          {/* Rating changes once a rated game is over */}
+          {ratingChanges.length > 0 && (
+            <div className="space-y-2" data-testid="rating-changes">
+              {ratingChanges
+                .slice()
+                .sort((a, b) => (a.color === playerColor ? -1 : b.color === playerColor ? 1 : 0))
+                .map(change => {
+                  const delta = Math.round(change.ratingAfter) - Math.round(change.ratingBefore);
+                  return (
+                    <div key={change.id} className="flex items-center justify-between text-sm p-2 bg-muted rounded-md">
+                      <span>
+                        {change.color === playerColor ? 'You' : opponentName}
+                        <span className="text-muted-foreground capitalize"> · {change.category}</span>
+                      </span>
+                      <span className="font-mono" data-testid={`text-rating-change-${change.color}`}>
+                        {Math.round(change.ratingAfter)}{' '}
+                        <span className={delta > 0 ? 'text-green-500' : delta < 0 ? 'text-red-500' : 'text-muted-foreground'}>
+                          ({delta > 0 ? '+' : ''}{delta})
+                        </span>
+                      </span>
+                    </div>
+                  );
+                })}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -1,17 +1,96 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Game, Move } from '@shared/schema';
-import { Download } from 'lucide-react';
-import { useState } from 'react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Download } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { DEFAULT_POSITION } from 'chess.js';
+import { useWebSocket } from '@/hooks/useWebSocket';
 
 interface GameInfoProps {
   game: Game;
   moves: Move[];
+  canAnalyze: boolean;
+  viewPly: number | null; // ply shown on the board, null while following the live game
+  onNavigate: (ply: number | null) => void;
 }
 
-export default function GameInfo({ game, moves }: GameInfoProps) {
+interface LiveAnalysisLine {
+  rank: number;
+  score: number; // from White's point of view
+  mate?: number;
+  san: string[];
+  depth: number;
+}
+
+interface LiveAnalysisUpdate {
+  gameId: string;
+  fen: string;
+  depth: number;
+  lines: LiveAnalysisLine[];
+}
+
+const formatScore = (line: LiveAnalysisLine) => {
+  if (line.mate !== undefined) {
+    return `#${line.mate}`;
+  }
+  return `${line.score > 0 ? '+' : ''}${line.score.toFixed(2)}`;
+};
+
+export default function GameInfo({ game, moves, canAnalyze, viewPly, onNavigate }: GameInfoProps) {
   const [isLiveAnalysisEnabled, setIsLiveAnalysisEnabled] = useState(false);
-  
+  const [liveAnalysis, setLiveAnalysis] = useState<LiveAnalysisUpdate | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const { startAnalysis, stopAnalysis, subscribe } = useWebSocket();
+
+  useEffect(() => {
+    const unsubscribeUpdate = subscribe('analysis_update', (update: LiveAnalysisUpdate) => {
+      if (update.gameId === game.id) {
+        setLiveAnalysis(update);
+      }
+    });
+
+    const unsubscribeStopped = subscribe('analysis_stopped', (data: { gameId: string; reason: string }) => {
+      if (data.gameId !== game.id) return;
+      setLiveAnalysis(null);
+      // The server restarts the analysis by itself when the position changes
+      if (data.reason !== 'position_changed' && data.reason !== 'restarted') {
+        setIsLiveAnalysisEnabled(false);
+      }
+    });
+
+    const unsubscribeError = subscribe('analysis_error', (data: { gameId: string; message: string }) => {
+      if (data.gameId !== game.id) return;
+      setAnalysisError(data.message);
+      setIsLiveAnalysisEnabled(false);
+    });
+
+    return () => {
+      unsubscribeUpdate();
+      unsubscribeStopped();
+      unsubscribeError();
+    };
+  }, [game.id, subscribe]);
+
+  // The position on the board: an earlier one while reviewing, otherwise the live game's
+  const viewedFen = viewPly === null ? undefined : viewPly < 0 ? DEFAULT_POSITION : moves[viewPly]?.fen;
+
+  useEffect(() => {
+    if (!isLiveAnalysisEnabled) return;
+    return () => stopAnalysis();
+  }, [isLiveAnalysisEnabled, stopAnalysis]);
+
+  // Starting again replaces the running analysis, so browsing the moves carries it along
+  useEffect(() => {
+    if (!isLiveAnalysisEnabled) return;
+    startAnalysis(3, viewedFen);
+  }, [isLiveAnalysisEnabled, viewedFen, startAnalysis]);
+
+  const handleToggleLiveAnalysis = () => {
+    setAnalysisError(null);
+    setIsLiveAnalysisEnabled(!isLiveAnalysisEnabled);
+  };
+
+
   const handleDownloadPGN = async () => {
     try {
       const response = await fetch(`/api/games/${game.id}/pgn`, {
@@ -42,13 +121,25 @@ export default function GameInfo({ game, moves }: GameInfoProps) {
       moveHistory.push({
         number: Math.floor(i / 2) + 1,
         white: whiteMove?.san || '',
-        black: blackMove?.san || '...'
+        black: blackMove?.san || '...',
+        whitePly: i,
+        blackPly: blackMove ? i + 1 : null,
       });
     }
     return moveHistory;
   };
 
   const moveHistory = formatMoveHistory();
+  const currentPly = viewPly ?? moves.length - 1;
+
+  const getMoveClasses = (ply: number | null) => {
+    const base = "font-mono px-1 rounded";
+    if (ply === null) return base;
+    if (ply === currentPly) {
+      return `${base} cursor-pointer ${viewPly !== null ? 'bg-secondary text-secondary-foreground' : 'bg-accent text-accent-foreground'}`;
+    }
+    return `${base} cursor-pointer hover:bg-accent hover:text-accent-foreground`;
+  };
 
   return (
     <div className="space-y-6">
@@ -78,13 +169,15 @@ export default function GameInfo({ game, moves }: GameInfoProps) {
                 <div key={index} className="grid grid-cols-3 gap-2 py-1 text-sm">
                   <span className="font-mono text-muted-foreground">{move.number}.</span>
                   <span 
-                    className="font-mono hover:bg-accent hover:text-accent-foreground px-1 rounded cursor-pointer"
+                    className={getMoveClasses(move.whitePly)}
+                    onClick={() => onNavigate(move.whitePly)}
                     data-testid={`move-white-${move.number}`}
                   >
                     {move.white}
                   </span>
                   <span 
-                    className="font-mono hover:bg-accent hover:text-accent-foreground px-1 rounded cursor-pointer"
+                    className={getMoveClasses(move.blackPly)}
+                    onClick={() => move.blackPly !== null && onNavigate(move.blackPly)}
                     data-testid={`move-black-${move.number}`}
                   >
                     {move.black}
@@ -93,19 +186,74 @@ export default function GameInfo({ game, moves }: GameInfoProps) {
               ))
             )}
           </div>
+
+          {/* Position navigation (also on the arrow keys) */}
+          <div className="flex items-center justify-between mt-3 pt-3 border-t border-border">
+            <div className="flex space-x-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onNavigate(-1)}
+                disabled={moves.length === 0 || currentPly < 0}
+                data-testid="button-first-move"
+              >
+                <ChevronsLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onNavigate(currentPly - 1)}
+                disabled={moves.length === 0 || currentPly < 0}
+                data-testid="button-previous-move"
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onNavigate(currentPly + 1)}
+                disabled={viewPly === null}
+                data-testid="button-next-move"
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onNavigate(null)}
+                disabled={viewPly === null}
+                data-testid="button-last-move"
+              >
+                <ChevronsRight className="h-4 w-4" />
+              </Button>
+            </div>
+            {viewPly !== null && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onNavigate(null)}
+                data-testid="button-live-position"
+              >
+                Live
+              </Button>
+            )}
+          </div>
         </CardContent>
       </Card>
 
-      {/* Live Analysis (Admin Only) */}
+      {/* Live Analysis (admins during play, anyone once the game is over) */}
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Live Analysis</CardTitle>
             <div className="flex items-center space-x-2">
-              <span className="text-xs text-muted-foreground">Admin</span>
+              <span className="text-xs text-muted-foreground">
+                {game.status === 'active' ? 'Admin' : 'Review'}
+              </span>
               <button 
-                className="w-8 h-4 bg-muted rounded-full relative transition-colors duration-200" 
-                onClick={() => setIsLiveAnalysisEnabled(!isLiveAnalysisEnabled)}
+                className="w-8 h-4 bg-muted rounded-full relative transition-colors duration-200 disabled:opacity-50" 
+                onClick={handleToggleLiveAnalysis}
+                disabled={!canAnalyze}
                 data-testid="toggle-live-analysis"
               >
                 <div 
@@ -121,40 +269,51 @@ export default function GameInfo({ game, moves }: GameInfoProps) {
         </CardHeader>
         <CardContent>
           {isLiveAnalysisEnabled ? (
-            <div className="space-y-3">
-              <div className="p-3 bg-muted rounded-md">
-                <div className="flex justify-between items-center mb-2">
-                  <span className="text-sm font-medium">Best Move</span>
-                  <span className="text-xs text-muted-foreground">Depth 18</span>
-                </div>
-                <div className="font-mono text-secondary" data-testid="text-best-move">Nf6</div>
-                <div className="text-xs text-muted-foreground mt-1" data-testid="text-move-evaluation">
-                  Evaluation: +0.21
-                </div>
+            !liveAnalysis || liveAnalysis.lines.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8">
+                <div className="text-sm">Analysing position...</div>
               </div>
-              
-              <div className="space-y-2">
-                <div className="text-sm font-medium">Top 3 Moves:</div>
-                <div className="space-y-1">
-                  <div className="flex justify-between text-sm">
-                    <span className="font-mono" data-testid="text-top-move-1">Nf6</span>
-                    <span className="text-muted-foreground">+0.21</span>
+            ) : (
+              <div className="space-y-3">
+                <div className="p-3 bg-muted rounded-md">
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="text-sm font-medium">Best Move</span>
+                    <span className="text-xs text-muted-foreground">Depth {liveAnalysis.depth}</span>
+                  </div>
+                  <div className="font-mono text-secondary" data-testid="text-best-move">
+                    {liveAnalysis.lines[0].san[0] || '-'}
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="font-mono" data-testid="text-top-move-2">Be7</span>
-                    <span className="text-muted-foreground">+0.15</span>
+                  <div className="text-xs text-muted-foreground mt-1" data-testid="text-move-evaluation">
+                    Evaluation: {formatScore(liveAnalysis.lines[0])}
                   </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="font-mono" data-testid="text-top-move-3">f5</span>
-                    <span className="text-destructive">-0.45</span>
+                  <div className="text-xs text-muted-foreground mt-1 font-mono truncate" data-testid="text-best-line">
+                    {liveAnalysis.lines[0].san.slice(0, 8).join(' ')}
+                  </div>
+                </div>
+                
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Top {liveAnalysis.lines.length} Moves:</div>
+                  <div className="space-y-1">
+                    {liveAnalysis.lines.map(line => (
+                      <div key={line.rank} className="flex justify-between text-sm">
+                        <span className="font-mono" data-testid={`text-top-move-${line.rank}`}>{line.san[0] || '-'}</span>
+                        <span className={(line.mate ?? line.score) < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                          {formatScore(line)}
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </div>
-            </div>
+            )
           ) : (
             <div className="text-center text-muted-foreground py-8">
-              <div className="text-sm">Live analysis is disabled</div>
-              <div className="text-xs mt-1">Toggle above to enable real-time position analysis</div>
+              <div className="text-sm">{analysisError || 'Live analysis is disabled'}</div>
+              <div className="text-xs mt-1">
+                {canAnalyze
+                  ? 'Toggle above to enable real-time position analysis'
+                  : 'Available to admins during play and to everyone after the game'}
+              </div>
             </div>
           )}
         </CardContent>
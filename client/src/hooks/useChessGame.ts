@@ -1,9 +1,13 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Chess } from 'chess.js';
+import { Chess, type Square } from 'chess.js';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, getErrorMessage } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { useWebSocket } from './useWebSocket';
+import { useAuth } from './useAuth';
+import type { Game, Move } from '@shared/schema';
+import type { TimeControl } from '@shared/timeControl';
+import type { TakebackPolicy } from '@shared/takeback';
+import { getPlayerColor, type PlayerColor } from '@shared/players';
 
 export interface ChessPiece {
   type: string;
@@ -15,30 +19,61 @@ export interface ChessSquare {
   square: string;
 }
 
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
+// A pawn move to the last rank waiting for the player to pick a piece
+export interface PendingPromotion {
+  from: string;
+  to: string;
+  color: 'w' | 'b';
+}
+
 export function useChessGame(gameId?: string) {
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<string[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
   const [chess] = useState(() => new Chess());
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const { broadcastGameUpdate } = useWebSocket();
+  const { user } = useAuth();
 
   // Fetch game data
-  const { data: game, isLoading } = useQuery({
+  const { data: game, isLoading } = useQuery<Game>({
     queryKey: ['/api/games', gameId],
     enabled: !!gameId,
   });
 
   // Fetch moves
-  const { data: moves } = useQuery({
+  const { data: moves } = useQuery<Move[]>({
     queryKey: ['/api/games', gameId, 'moves'],
     enabled: !!gameId,
   });
 
+  // The side this browser plays; in human games that isn't always the creator's playerColor
+  const playerColor: PlayerColor | undefined = game
+    ? getPlayerColor(game, user?.id ?? null) ?? (game.playerColor as PlayerColor)
+    : undefined;
+
   // Create new game mutation
   const createGameMutation = useMutation({
-    mutationFn: async ({ playerColor, aiDifficulty }: { playerColor: string; aiDifficulty: number }) => {
-      const res = await apiRequest('POST', '/api/games', { playerColor, aiDifficulty });
+    mutationFn: async ({ playerColor, aiDifficulty, opponentType, timeControl, rated, takebackPolicy, takebackLimit }: {
+      playerColor: string;
+      aiDifficulty: number;
+      opponentType?: 'ai' | 'human';
+      timeControl?: string | TimeControl; // preset id or a custom control
+      rated?: boolean;
+      takebackPolicy?: TakebackPolicy;
+      takebackLimit?: number;
+    }) => {
+      const res = await apiRequest('POST', '/api/games', {
+        playerColor,
+        aiDifficulty,
+        opponentType,
+        timeControl,
+        rated,
+        takebackPolicy,
+        takebackLimit,
+      });
       return res.json();
     },
     onSuccess: (data) => {
@@ -65,17 +100,14 @@ export function useChessGame(gameId?: string) {
 
   // Make move mutation
   const makeMoveMutation = useMutation({
-    mutationFn: async ({ move }: { move: string }) => {
-      const res = await apiRequest('POST', `/api/games/${gameId}/moves`, { move });
+    mutationFn: async ({ move, promotion }: { move: string; promotion?: PromotionPiece }) => {
+      const res = await apiRequest('POST', `/api/games/${gameId}/moves`, { move, promotion });
       return res.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/games', gameId] });
       queryClient.invalidateQueries({ queryKey: ['/api/games', gameId, 'moves'] });
       
-      // Broadcast update to other clients
-      broadcastGameUpdate(data.gameState);
-      
       if (data.gameOver) {
         toast({
           title: "Game Over",
@@ -83,10 +115,10 @@ export function useChessGame(gameId?: string) {
         });
       }
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Invalid Move",
-        description: "That move is not allowed",
+        description: getErrorMessage(error, "That move is not allowed"),
         variant: "destructive",
       });
     },
@@ -99,6 +131,34 @@ export function useChessGame(gameId?: string) {
     }
   }, [game?.currentFen, chess]);
 
+  // Squares the piece on `square` can move to, if it is ours and it is our turn
+  const getLegalTargets = useCallback((square: string) => {
+    const piece = chess.get(square as Square);
+    if (!piece || piece.color !== chess.turn()) return [];
+    if (playerColor && piece.color !== playerColor[0]) return [];
+    return chess.moves({ square: square as Square, verbose: true }).map(move => move.to as string);
+  }, [chess, playerColor]);
+
+  /**
+   * Play a move from the board, asking for the promotion piece first when needed.
+   * Returns false for illegal moves so the board can put the piece back.
+   */
+  const tryMove = useCallback((from: string, to: string) => {
+    if (!getLegalTargets(from).includes(to)) return false;
+
+    const piece = chess.get(from as Square);
+    const isPromotion = piece?.type === 'p' && (to[1] === '8' || to[1] === '1');
+    if (isPromotion) {
+      // Let the player choose the piece before anything is sent
+      setPendingPromotion({ from, to, color: piece.color });
+    } else {
+      makeMoveMutation.mutate({ move: from + to });
+    }
+    setSelectedSquare(null);
+    setPossibleMoves([]);
+    return true;
+  }, [chess, getLegalTargets, makeMoveMutation]);
+
   const handleSquareClick = useCallback((square: string) => {
     if (selectedSquare === square) {
       // Deselect
@@ -108,27 +168,34 @@ export function useChessGame(gameId?: string) {
     }
 
     if (selectedSquare && possibleMoves.includes(square)) {
-      // Make move
-      const move = selectedSquare + square;
-      makeMoveMutation.mutate({ move });
-      setSelectedSquare(null);
-      setPossibleMoves([]);
+      tryMove(selectedSquare, square);
       return;
     }
 
     // Select new square
-    const piece = chess.get(square as any);
-    if (piece && piece.color === chess.turn()) {
+    const targets = getLegalTargets(square);
+    if (targets.length > 0) {
       setSelectedSquare(square);
-      const moves = chess.moves({ square: square as any, verbose: true });
-      setPossibleMoves(moves.map(move => move.to));
+      setPossibleMoves(targets);
     } else {
       setSelectedSquare(null);
       setPossibleMoves([]);
     }
-  }, [selectedSquare, possibleMoves, chess, makeMoveMutation]);
+  }, [selectedSquare, possibleMoves, getLegalTargets, tryMove]);
+
+  const choosePromotion = useCallback((piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    makeMoveMutation.mutate({ move: pendingPromotion.from + pendingPromotion.to, promotion: piece });
+    setPendingPromotion(null);
+  }, [pendingPromotion, makeMoveMutation]);
+
+  const cancelPromotion = useCallback(() => {
+    setPendingPromotion(null);
+  }, []);
 
-  const getBoardState = useCallback(() => {
+  // The live position, or a historical one when its FEN is given
+  const getBoardState = useCallback((fen?: string) => {
+    const position = fen ? new Chess(fen) : chess;
     const board: ChessSquare[] = [];
     const ranks = ['8', '7', '6', '5', '4', '3', '2', '1'];
     const files = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
@@ -136,7 +203,7 @@ export function useChessGame(gameId?: string) {
     for (const rank of ranks) {
       for (const file of files) {
         const square = file + rank;
-        const piece = chess.get(square as any);
+        const piece = position.get(square as Square);
         board.push({
           piece: piece || null,
           square,
@@ -164,6 +231,7 @@ export function useChessGame(gameId?: string) {
   return {
     game,
     moves,
+    playerColor,
     isLoading,
     selectedSquare,
     possibleMoves,
@@ -171,7 +239,12 @@ export function useChessGame(gameId?: string) {
     isCreatingGame: createGameMutation.isPending,
     makeMove: makeMoveMutation.mutate,
     isMakingMove: makeMoveMutation.isPending,
+    pendingPromotion,
+    choosePromotion,
+    cancelPromotion,
     handleSquareClick,
+    getLegalTargets,
+    tryMove,
     getBoardState,
     isSquareSelected,
     isSquarePossibleMove,
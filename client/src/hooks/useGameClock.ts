@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import type { Game } from '@shared/schema';
+import { useWebSocket } from './useWebSocket';
+
+export interface ClockState {
+  gameId: string;
+  whiteTimeLeft: number; // seconds
+  blackTimeLeft: number; // seconds
+  turn: 'white' | 'black';
+  running: boolean;
+  delay: number; // seconds before the running clock starts to drop
+  serverTime: number;
+}
+
+interface ClockSnapshot extends ClockState {
+  receivedAt: number;
+}
+
+// The server owns the clocks; between its updates we only count down locally for display
+export function useGameClock(game?: Game) {
+  const { subscribe } = useWebSocket();
+  const [snapshot, setSnapshot] = useState<ClockSnapshot | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!game?.id) return;
+
+    return subscribe('clock', (clock: ClockState) => {
+      if (clock.gameId === game.id) {
+        setSnapshot({ ...clock, receivedAt: Date.now() });
+      }
+    });
+  }, [game?.id, subscribe]);
+
+  useEffect(() => {
+    if (!snapshot?.running) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [snapshot]);
+
+  if (!snapshot) {
+    return {
+      whiteTimeLeft: game?.whiteTimeLeft ?? 0,
+      blackTimeLeft: game?.blackTimeLeft ?? 0,
+      turn: (game?.currentFen.split(' ')[1] === 'b' ? 'black' : 'white') as 'white' | 'black',
+      running: false,
+    };
+  }
+
+  const elapsed = snapshot.running
+    ? Math.max(0, (now - snapshot.receivedAt) / 1000 - snapshot.delay)
+    : 0;
+  return {
+    whiteTimeLeft: Math.max(0, snapshot.whiteTimeLeft - (snapshot.turn === 'white' ? elapsed : 0)),
+    blackTimeLeft: Math.max(0, snapshot.blackTimeLeft - (snapshot.turn === 'black' ? elapsed : 0)),
+    turn: snapshot.turn,
+    running: snapshot.running,
+  };
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { wsManager } from '@/lib/websocket';
 
 export function useWebSocket() {
@@ -16,27 +16,45 @@ export function useWebSocket() {
     };
   }, []);
 
-  const joinGame = (gameId: string, userId: string, isAdmin: boolean = false) => {
-    wsManager.send('join_game', { gameId, userId, isAdmin });
-  };
+  // These only wrap the shared socket, so they keep their identity across renders and can
+  // sit in effect dependencies. The server knows who we are from the session cookie
+  const joinGame = useCallback((gameId: string) => {
+    wsManager.send('join_game', { gameId });
+  }, []);
 
-  const spectateGame = (gameId: string) => {
+  const spectateGame = useCallback((gameId: string) => {
     wsManager.send('spectate_game', { gameId });
-  };
+  }, []);
 
-  const broadcastGameUpdate = (gameState: any) => {
-    wsManager.send('game_update', { gameState });
-  };
+  const joinLobby = useCallback(() => {
+    wsManager.send('join_lobby', {});
+  }, []);
+
+  const leaveLobby = useCallback(() => {
+    wsManager.send('leave_lobby', {});
+  }, []);
+
+  // Without a FEN the analysis follows the game's current position
+  const startAnalysis = useCallback((multiPv: number = 3, fen?: string) => {
+    wsManager.send('start_analysis', { multiPv, fen });
+  }, []);
 
-  const subscribe = (event: string, callback: Function) => {
+  const stopAnalysis = useCallback(() => {
+    wsManager.send('stop_analysis', {});
+  }, []);
+
+  const subscribe = useCallback((event: string, callback: Function) => {
     wsManager.on(event, callback);
     return () => wsManager.off(event, callback);
-  };
+  }, []);
 
   return {
     joinGame,
     spectateGame,
-    broadcastGameUpdate,
+    joinLobby,
+    leaveLobby,
+    startAnalysis,
+    stopAnalysis,
     subscribe,
   };
 }
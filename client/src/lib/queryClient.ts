@@ -7,6 +7,15 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// The server's message from an apiRequest error, which looks like `400: {"message":"..."}`
+export function getErrorMessage(error: Error, fallback: string): string {
+  try {
+    return JSON.parse(error.message.replace(/^\d+:\s*/, '')).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
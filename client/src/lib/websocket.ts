@@ -4,20 +4,40 @@ export class WebSocketManager {
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
   private listeners: { [key: string]: Function[] } = {};
+  private pendingMessages: string[] = [];
+  private connections = 0;
+  // Join messages for the rooms we're in, keyed by room, so a new connection can join them again
+  private rooms = new Map<string, string>();
 
   connect() {
+    // Several components share this socket; only the first one opens it
+    this.connections++;
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+      return;
+    }
+    this.open();
+  }
+
+  private open() {
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    this.ws = new WebSocket(wsUrl);
 
-    this.ws.onopen = () => {
+    const ws = new WebSocket(wsUrl);
+    this.ws = ws;
+
+    ws.onopen = () => {
       console.log('WebSocket connected');
       this.reconnectAttempts = 0;
+      // The server forgets our rooms with the old connection, so join them first,
+      // then deliver anything sent while we were connecting or reconnecting
+      this.rooms.forEach(message => ws.send(message));
+      const pending = this.pendingMessages;
+      this.pendingMessages = [];
+      pending.forEach(message => ws.send(message));
       this.emit('connected');
     };
 
-    this.ws.onmessage = (event) => {
+    ws.onmessage = (event) => {
       try {
         const data = JSON.parse(event.data);
         this.emit(data.type, data.data);
@@ -26,31 +46,67 @@ export class WebSocketManager {
       }
     };
 
-    this.ws.onclose = () => {
+    ws.onclose = () => {
       console.log('WebSocket disconnected');
       this.emit('disconnected');
-      this.handleReconnect();
+      // Don't reconnect a socket that was closed on purpose
+      if (this.ws === ws) {
+        this.ws = null;
+        this.handleReconnect();
+      }
     };
 
-    this.ws.onerror = (error) => {
+    ws.onerror = (error) => {
       console.error('WebSocket error:', error);
     };
   }
 
   private handleReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
+    if (this.connections > 0 && this.reconnectAttempts < this.maxReconnectAttempts) {
       this.reconnectAttempts++;
       console.log(`Attempting to reconnect... (${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      
+
       setTimeout(() => {
-        this.connect();
+        if (this.connections > 0 && !this.ws) {
+          this.open();
+        }
       }, this.reconnectDelay * this.reconnectAttempts);
     }
   }
 
-  send(type: string, data: any) {
+  /**
+   * Send a message, or hold it until the socket (re)connects. Joins are
+   * remembered instead of queued and sent again on every new connection.
+   * Returns false when nothing wants a connection, so the message is dropped.
+   */
+  send(type: string, data: any): boolean {
+    if (this.connections === 0) return false;
+
+    const message = JSON.stringify({ type, ...data });
+    const room = this.trackRoom(type, message);
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({ type, ...data }));
+      this.ws.send(message);
+    } else if (!room) {
+      this.pendingMessages.push(message);
+    }
+    return true;
+  }
+
+  // A socket is in at most one game and, separately, the lobby
+  private trackRoom(type: string, message: string): string | null {
+    switch (type) {
+      case 'join_game':
+      case 'spectate_game':
+        this.rooms.set('game', message);
+        return 'game';
+      case 'join_lobby':
+        this.rooms.set('lobby', message);
+        return 'lobby';
+      case 'leave_lobby':
+        this.rooms.delete('lobby');
+        return null;
+      default:
+        return null;
     }
   }
 
@@ -77,9 +133,15 @@ export class WebSocketManager {
   }
 
   disconnect() {
+    this.connections = Math.max(0, this.connections - 1);
+    if (this.connections > 0) return;
+
+    this.pendingMessages = [];
+    this.rooms.clear();
     if (this.ws) {
-      this.ws.close();
+      const ws = this.ws;
       this.ws = null;
+      ws.close();
     }
   }
 }
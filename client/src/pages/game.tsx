@@ -1,60 +1,178 @@
 import { useParams } from 'wouter';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_POSITION } from 'chess.js';
 import { isUnauthorizedError } from '@/lib/authUtils';
+import { queryClient } from '@/lib/queryClient';
 import ChessBoard from '@/components/ChessBoard';
 import GameControls from '@/components/GameControls';
 import GameInfo from '@/components/GameInfo';
 import AnalysisModal from '@/components/AnalysisModal';
 import { useChessGame } from '@/hooks/useChessGame';
 import { useWebSocket } from '@/hooks/useWebSocket';
+import type { Game as GameType } from '@shared/schema';
 
 export default function Game() {
   const { id: gameId } = useParams<{ id: string }>();
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, isLoading } = useAuth();
   const { toast } = useToast();
   const [showAnalysis, setShowAnalysis] = useState(false);
   const { 
     game, 
     moves, 
+    playerColor,
     isLoading: isGameLoading,
     handleSquareClick,
+    getLegalTargets,
+    tryMove,
     getBoardState,
     isSquareSelected,
     isSquarePossibleMove,
     isSquareLight,
     makeMove,
-    isMakingMove
+    isMakingMove,
+    pendingPromotion,
+    choosePromotion,
+    cancelPromotion
   } = useChessGame(gameId);
   
   const { joinGame, subscribe } = useWebSocket();
 
-  // Join game via WebSocket - handle both authenticated and guest users
+  // Ply being reviewed (index into moves, -1 for the starting position), or null for the live game
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  const moveCount = moves?.length ?? 0;
+
+  const goToPly = useCallback((ply: number | null) => {
+    if (ply === null || ply >= moveCount - 1) {
+      setViewPly(null);
+    } else {
+      setViewPly(Math.max(-1, ply));
+    }
+  }, [moveCount]);
+
+  // A takeback can remove the move being reviewed
+  useEffect(() => {
+    if (viewPly !== null && viewPly >= moveCount - 1) {
+      setViewPly(null);
+    }
+  }, [viewPly, moveCount]);
+
+  // Arrow keys step through the game, Home/End jump to either end
   useEffect(() => {
-    if (gameId) {
-      if (isAuthenticated && user?.id) {
-        joinGame(gameId, user.id, user.isAdmin || false);
-      } else if (!isLoading && !isAuthenticated) {
-        // Guest user - create a temporary ID for WebSocket connection
-        const guestId = `guest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        joinGame(gameId, guestId, false);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      if (moveCount === 0) return;
+
+      const current = viewPly ?? moveCount - 1;
+      if (event.key === 'ArrowLeft') {
+        goToPly(current - 1);
+      } else if (event.key === 'ArrowRight') {
+        goToPly(current + 1);
+      } else if (event.key === 'Home') {
+        goToPly(-1);
+      } else if (event.key === 'End') {
+        goToPly(null);
+      } else {
+        return;
       }
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [viewPly, moveCount, goToPly]);
+
+  // Join game via WebSocket - the server identifies players and guests by their session
+  useEffect(() => {
+    if (gameId && !isLoading) {
+      joinGame(gameId);
     }
-  }, [gameId, user, joinGame, isAuthenticated, isLoading]);
+  }, [gameId, joinGame, isLoading]);
+
+  // The server pushes the game's state after every change; it is the only source of it
+  useEffect(() => {
+    if (!gameId) return;
+
+    const unsubscribe = subscribe('game_state', (state: Partial<GameType> & { gameId: string }) => {
+      if (state.gameId !== gameId) return;
+      const { gameId: _, ...updates } = state;
+      queryClient.setQueryData<GameType>(['/api/games', gameId], current => current && { ...current, ...updates });
+      queryClient.invalidateQueries({ queryKey: ['/api/games', gameId, 'moves'] });
+    });
 
-  // Subscribe to game updates
+    return unsubscribe;
+  }, [gameId, subscribe]);
+
+  // Takebacks remove moves, so refetch the position and move list
   useEffect(() => {
     if (!gameId) return;
 
-    const unsubscribe = subscribe('game_state', (gameState: any) => {
-      // Handle real-time game state updates
-      console.log('Game state updated:', gameState);
+    const unsubscribe = subscribe('takeback', (data: { gameId: string }) => {
+      if (data.gameId !== gameId) return;
+      queryClient.invalidateQueries({ queryKey: ['/api/games', gameId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games', gameId, 'moves'] });
     });
 
     return unsubscribe;
   }, [gameId, subscribe]);
 
+  // A human opponent's arrival and draw offers arrive over the socket
+  useEffect(() => {
+    if (!gameId) return;
+
+    const refresh = (data: { gameId: string }) => {
+      if (data.gameId !== gameId) return;
+      queryClient.invalidateQueries({ queryKey: ['/api/games', gameId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/games', gameId, 'moves'] });
+    };
+
+    const unsubscribeJoined = subscribe('opponent_joined', (data: { gameId: string }) => {
+      refresh(data);
+      if (data.gameId === gameId) {
+        toast({ title: "Opponent Joined", description: "The game has started" });
+      }
+    });
+    const unsubscribeOffered = subscribe('draw_offered', (data: { gameId: string; by: string }) => {
+      refresh(data);
+      if (data.gameId === gameId && data.by !== playerColor) {
+        toast({ title: "Draw Offered", description: "Your opponent offers a draw" });
+      }
+    });
+    const unsubscribeDeclined = subscribe('draw_declined', (data: { gameId: string; by: string }) => {
+      refresh(data);
+      if (data.gameId === gameId && data.by !== playerColor) {
+        toast({ title: "Draw Declined", description: "Your opponent declined the draw" });
+      }
+    });
+
+    return () => {
+      unsubscribeJoined();
+      unsubscribeOffered();
+      unsubscribeDeclined();
+    };
+  }, [gameId, subscribe, toast, playerColor]);
+
+  // The server ends games on its own, e.g. when a clock runs out
+  useEffect(() => {
+    if (!gameId) return;
+
+    const unsubscribe = subscribe('game_over', (data: { gameId: string; result: string; termination: string }) => {
+      if (data.gameId !== gameId) return;
+      // Also refreshes the rating changes of a rated game
+      queryClient.invalidateQueries({ queryKey: ['/api/games', gameId] });
+      toast({
+        title: "Game Over",
+        description: data.termination.startsWith('timeout')
+          ? `Time ran out (${data.result})`
+          : `Game finished (${data.result})`,
+      });
+    });
+
+    return unsubscribe;
+  }, [gameId, subscribe, toast]);
+
   if (isLoading || isGameLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -121,24 +239,84 @@ export default function Game() {
           
           {/* Left Sidebar - Game Controls */}
           <div className="xl:col-span-3">
-            <GameControls game={game} />
+            <GameControls game={game} playerColor={playerColor ?? 'white'} />
           </div>
 
           {/* Center - Chess Board */}
-          <div className="xl:col-span-6 flex justify-center">
-            <ChessBoard 
-              boardState={getBoardState()}
-              onSquareClick={handleSquareClick}
-              isSquareSelected={isSquareSelected}
-              isSquarePossibleMove={isSquarePossibleMove}
-              isSquareLight={isSquareLight}
-              playerColor={game.playerColor}
-            />
+          <div className="xl:col-span-6 flex flex-col items-center space-y-3">
+            {game.status === 'waiting' && game.inviteCode && (
+              <div className="w-full px-4 py-3 rounded-md bg-primary/20 text-sm space-y-2" data-testid="banner-waiting">
+                <div>Waiting for your opponent. Send them this link:</div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    readOnly
+                    value={`${window.location.origin}/join/${game.inviteCode}`}
+                    className="flex-1 bg-input border border-border rounded-md px-3 py-1 font-mono text-xs"
+                    onFocus={(e) => e.target.select()}
+                    data-testid="input-invite-link"
+                  />
+                  <button
+                    onClick={() => navigator.clipboard.writeText(`${window.location.origin}/join/${game.inviteCode}`)}
+                    className="bg-primary hover:bg-primary/90 px-3 py-1 rounded-md text-primary-foreground"
+                    data-testid="button-copy-invite"
+                  >
+                    Copy
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {viewPly !== null && (
+              <div className="w-full flex items-center justify-between px-4 py-2 rounded-md bg-secondary/20 text-sm" data-testid="banner-reviewing">
+                <span>
+                  Reviewing {viewPly < 0 ? 'the starting position' : `move ${Math.floor(viewPly / 2) + 1}${viewPly % 2 === 0 ? '.' : '...'} ${moves![viewPly].san}`}
+                </span>
+                <button
+                  onClick={() => goToPly(null)}
+                  className="bg-primary hover:bg-primary/90 px-3 py-1 rounded-md text-primary-foreground"
+                  data-testid="button-back-to-live"
+                >
+                  Back to live
+                </button>
+              </div>
+            )}
+
+            {viewPly !== null ? (
+              // Historical positions are read-only
+              <ChessBoard 
+                boardState={getBoardState(viewPly < 0 ? DEFAULT_POSITION : moves![viewPly].fen)}
+                onSquareClick={() => {}}
+                isSquareSelected={() => false}
+                isSquarePossibleMove={() => false}
+                isSquareLight={isSquareLight}
+                playerColor={playerColor ?? 'white'}
+              />
+            ) : (
+              <ChessBoard 
+                boardState={getBoardState()}
+                onSquareClick={handleSquareClick}
+                isSquareSelected={isSquareSelected}
+                isSquarePossibleMove={isSquarePossibleMove}
+                isSquareLight={isSquareLight}
+                playerColor={playerColor ?? 'white'}
+                getLegalTargets={getLegalTargets}
+                onPieceDrop={tryMove}
+                pendingPromotion={pendingPromotion}
+                onPromotionSelect={choosePromotion}
+                onPromotionCancel={cancelPromotion}
+              />
+            )}
           </div>
 
           {/* Right Sidebar - Game Info */}
           <div className="xl:col-span-3">
-            <GameInfo game={game} moves={moves || []} />
+            <GameInfo 
+              game={game} 
+              moves={moves || []} 
+              canAnalyze={!!user?.isAdmin || game.status !== 'active'}
+              viewPly={viewPly}
+              onNavigate={goToPly}
+            />
           </div>
         </div>
       </main>
@@ -148,6 +326,11 @@ export default function Game() {
         <AnalysisModal 
           gameId={gameId!}
           onClose={() => setShowAnalysis(false)} 
+          onSelectPly={(ply) => {
+            // Review the chosen position on the board
+            goToPly(ply - 1);
+            setShowAnalysis(false);
+          }}
         />
       )}
     </div>
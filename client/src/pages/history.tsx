@@ -0,0 +1,323 @@
+import { useState } from 'react';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { Download, ExternalLink, LineChart } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import AnalysisModal from '@/components/AnalysisModal';
+import { AI_DIFFICULTIES, getPlayerColor } from '@shared/players';
+import type { GameListPage } from '@shared/gameList';
+
+// 'any' stands for "no filter" in the selects, which can't hold an empty value
+const ANY = 'any';
+
+interface Filters {
+  result: string;
+  color: string;
+  opponent: string;
+  difficulty: string;
+  from: string; // yyyy-mm-dd
+  to: string; // yyyy-mm-dd
+  opening: string;
+  analyzed: string;
+  sort: 'newest' | 'oldest';
+}
+
+const DEFAULT_FILTERS: Filters = {
+  result: ANY,
+  color: ANY,
+  opponent: ANY,
+  difficulty: ANY,
+  from: '',
+  to: '',
+  opening: '',
+  analyzed: ANY,
+  sort: 'newest',
+};
+
+function toQueryString(filters: Filters, cursor?: string): string {
+  const params = new URLSearchParams();
+  (['result', 'color', 'opponent', 'difficulty', 'analyzed'] as const).forEach(key => {
+    if (filters[key] !== ANY) params.set(key, filters[key]);
+  });
+  // Dates are picked in local time; the range covers the whole of both days
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.opening.trim()) params.set('opening', filters.opening.trim());
+  params.set('sort', filters.sort);
+  if (cursor) params.set('cursor', cursor);
+  return params.toString();
+}
+
+function FilterSelect({ label, value, onChange, options, testId }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+  testId: string;
+}) {
+  return (
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-muted-foreground">{label}</label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+// The signed-in player's games, newest first, with filters and quick actions
+export default function History() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [analysisGameId, setAnalysisGameId] = useState<string | null>(null);
+
+  const setFilter = <K extends keyof Filters>(key: K) => (value: Filters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/games', 'history', filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(`/api/games?${toQueryString(filters, pageParam)}`, { credentials: 'include' });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json() as Promise<GameListPage>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+  const games = data?.pages.flatMap(page => page.games) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="bg-card border-b border-border">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+            My Games
+          </h1>
+          <Button variant="outline" onClick={() => setLocation('/')} data-testid="button-back-home">
+            Home
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+
+          {/* Filters */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Filters</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <FilterSelect
+                  label="Result"
+                  value={filters.result}
+                  onChange={setFilter('result')}
+                  testId="select-filter-result"
+                  options={[
+                    { value: ANY, label: 'Any result' },
+                    { value: 'win', label: 'Wins' },
+                    { value: 'draw', label: 'Draws' },
+                    { value: 'loss', label: 'Losses' },
+                  ]}
+                />
+                <FilterSelect
+                  label="Colour"
+                  value={filters.color}
+                  onChange={setFilter('color')}
+                  testId="select-filter-color"
+                  options={[
+                    { value: ANY, label: 'Either colour' },
+                    { value: 'white', label: 'White' },
+                    { value: 'black', label: 'Black' },
+                  ]}
+                />
+                <FilterSelect
+                  label="Opponent"
+                  value={filters.opponent}
+                  onChange={setFilter('opponent')}
+                  testId="select-filter-opponent"
+                  options={[
+                    { value: ANY, label: 'Anyone' },
+                    { value: 'ai', label: 'AnveshAI' },
+                    { value: 'human', label: 'Players' },
+                  ]}
+                />
+                <FilterSelect
+                  label="Difficulty"
+                  value={filters.difficulty}
+                  onChange={setFilter('difficulty')}
+                  testId="select-filter-difficulty"
+                  options={[
+                    { value: ANY, label: 'Any difficulty' },
+                    ...AI_DIFFICULTIES.map(difficulty => ({ value: difficulty.toString(), label: `AnveshAI ${difficulty}` })),
+                  ]}
+                />
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-muted-foreground">From</label>
+                  <Input
+                    type="date"
+                    value={filters.from}
+                    onChange={(e) => setFilter('from')(e.target.value)}
+                    data-testid="input-filter-from"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-muted-foreground">To</label>
+                  <Input
+                    type="date"
+                    value={filters.to}
+                    onChange={(e) => setFilter('to')(e.target.value)}
+                    data-testid="input-filter-to"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-muted-foreground">Opening</label>
+                  <Input
+                    placeholder="e.g. Sicilian"
+                    value={filters.opening}
+                    onChange={(e) => setFilter('opening')(e.target.value)}
+                    data-testid="input-filter-opening"
+                  />
+                </div>
+                <FilterSelect
+                  label="Analysis"
+                  value={filters.analyzed}
+                  onChange={setFilter('analyzed')}
+                  testId="select-filter-analyzed"
+                  options={[
+                    { value: ANY, label: 'Analysed or not' },
+                    { value: 'true', label: 'Analysed' },
+                    { value: 'false', label: 'Not analysed' },
+                  ]}
+                />
+                <FilterSelect
+                  label="Sort"
+                  value={filters.sort}
+                  onChange={(value) => setFilter('sort')(value as Filters['sort'])}
+                  testId="select-sort"
+                  options={[
+                    { value: 'newest', label: 'Newest first' },
+                    { value: 'oldest', label: 'Oldest first' },
+                  ]}
+                />
+              </div>
+              <div className="mt-4 flex justify-end">
+                <Button variant="ghost" size="sm" onClick={() => setFilters(DEFAULT_FILTERS)} data-testid="button-clear-filters">
+                  Clear filters
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Games */}
+          <Card>
+            <CardContent className="pt-6 space-y-2">
+              {isLoading ? (
+                <div className="text-center text-muted-foreground py-8">Loading games...</div>
+              ) : error ? (
+                <div className="text-center text-destructive py-8" data-testid="text-history-error">Could not load your games</div>
+              ) : games.length === 0 ? (
+                <div className="text-center text-muted-foreground py-8" data-testid="text-no-games">No games match these filters</div>
+              ) : (
+                games.map(game => {
+                  const color = user ? getPlayerColor(game, user.id) : null;
+                  const opponent = game.opponentType === 'human' ? 'Player' : `AnveshAI (${game.aiDifficulty})`;
+                  return (
+                    <div
+                      key={game.id}
+                      className="flex items-center justify-between p-3 bg-muted rounded-md"
+                      data-testid={`history-game-${game.id}`}
+                    >
+                      <div>
+                        <div className="font-medium">
+                          {color === 'black' ? '♚' : '♔'} vs {opponent}
+                          <span className="font-mono ml-2">{game.result ?? (game.status === 'waiting' ? 'Waiting' : 'In progress')}</span>
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {game.createdAt ? new Date(game.createdAt).toLocaleString() : ''}
+                          {game.opening && ` · ${game.opening}`}
+                          {game.rated ? ' · Rated' : ' · Casual'}
+                          {game.analyzed && ' · Analysed'}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLocation(`/game/${game.id}`)}
+                          title="Open"
+                          data-testid={`button-open-${game.id}`}
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setAnalysisGameId(game.id)}
+                          disabled={game.status === 'active' || game.status === 'waiting'}
+                          title="Analyse"
+                          data-testid={`button-analyze-${game.id}`}
+                        >
+                          <LineChart className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" asChild title="Download PGN">
+                          <a href={`/api/games/${game.id}/pgn`} download data-testid={`link-pgn-${game.id}`}>
+                            <Download className="h-4 w-4" />
+                          </a>
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+
+              {hasNextPage && (
+                <div className="pt-4 text-center">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                    data-testid="button-load-more"
+                  >
+                    {isFetchingNextPage ? 'Loading...' : 'Load more'}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+
+      {analysisGameId && (
+        <AnalysisModal
+          gameId={analysisGameId}
+          onClose={() => setAnalysisGameId(null)}
+        />
+      )}
+    </div>
+  );
+}
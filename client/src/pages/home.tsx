@@ -4,10 +4,22 @@ import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useChessGame } from '@/hooks/useChessGame';
 import { useState } from 'react';
 import { useLocation } from 'wouter';
 import WatchModeModal from '@/components/WatchModeModal';
+import { DEFAULT_TIME_CONTROL_PRESET, TIME_CONTROL_PRESETS, timeControlSchema } from '@shared/timeControl';
+import type { TakebackPolicy } from '@shared/takeback';
+
+// Takeback choices offered when starting a casual game
+const TAKEBACK_OPTIONS: { id: string; name: string; policy: TakebackPolicy; limit?: number }[] = [
+  { id: 'allowed', name: 'Unlimited', policy: 'allowed' },
+  { id: 'limited-3', name: 'Up to 3 per game', policy: 'limited', limit: 3 },
+  { id: 'limited-1', name: 'Just 1 per game', policy: 'limited', limit: 1 },
+  { id: 'disabled', name: 'No takebacks', policy: 'disabled' },
+];
 
 export default function Home() {
   const { user, isLoading, isAuthenticated } = useAuth();
@@ -15,6 +27,14 @@ export default function Home() {
   const [location, setLocation] = useLocation();
   const [playerColor, setPlayerColor] = useState<string>('white');
   const [aiDifficulty, setAiDifficulty] = useState<number>(1600);
+  const [opponentType, setOpponentType] = useState<'ai' | 'human'>('ai');
+  const [timeControlId, setTimeControlId] = useState<string>(DEFAULT_TIME_CONTROL_PRESET);
+  const [customMinutes, setCustomMinutes] = useState('10');
+  const [customIncrement, setCustomIncrement] = useState('0');
+  const [customDelay, setCustomDelay] = useState('0');
+  const [customDelayMode, setCustomDelayMode] = useState<'simple' | 'bronstein'>('simple');
+  const [takebackOption, setTakebackOption] = useState<string>('allowed');
+  const [rated, setRated] = useState(false);
   const [showWatchMode, setShowWatchMode] = useState(false);
   const { createGame, isCreatingGame } = useChessGame();
   
@@ -36,7 +56,39 @@ export default function Home() {
   }, [user, isLoading, toast, isGuestMode, location]);
 
   const handleCreateGame = () => {
-    createGame({ playerColor, aiDifficulty });
+    const takebacks = TAKEBACK_OPTIONS.find(option => option.id === takebackOption) ?? TAKEBACK_OPTIONS[0];
+    const isHumanGame = isAuthenticated && opponentType === 'human';
+    const options = {
+      playerColor,
+      aiDifficulty,
+      opponentType: isHumanGame ? 'human' as const : 'ai' as const,
+      rated: isAuthenticated && rated,
+      takebackPolicy: takebacks.policy,
+      takebackLimit: takebacks.limit,
+    };
+
+    if (timeControlId !== 'custom') {
+      createGame({ ...options, timeControl: timeControlId });
+      return;
+    }
+
+    const custom = timeControlSchema.safeParse({
+      stages: [{
+        time: Math.round(parseFloat(customMinutes) * 60),
+        increment: parseFloat(customIncrement) || 0,
+        delay: parseFloat(customDelay) || 0,
+      }],
+      delayMode: customDelayMode,
+    });
+    if (!custom.success) {
+      toast({
+        title: "Invalid time control",
+        description: custom.error.errors[0]?.message || "Check the custom time control",
+        variant: "destructive",
+      });
+      return;
+    }
+    createGame({ ...options, timeControl: custom.data });
   };
 
   const handleLogout = () => {
@@ -71,8 +123,31 @@ export default function Home() {
             </div>
             
             <div className="flex items-center space-x-4">
+              <Button 
+                variant="outline"
+                onClick={() => setLocation('/lobby')}
+                data-testid="button-lobby"
+              >
+                Lobby
+              </Button>
+              <Button 
+                variant="outline"
+                onClick={() => setLocation('/leaderboard')}
+                data-testid="button-leaderboard"
+              >
+                Leaderboard
+              </Button>
+
               {isAuthenticated ? (
                 <>
+                  <Button 
+                    variant="outline"
+                    onClick={() => setLocation('/games')}
+                    data-testid="button-my-games"
+                  >
+                    My Games
+                  </Button>
+
                   {user?.isAdmin && (
                     <Button 
                       variant="outline"
@@ -85,7 +160,11 @@ export default function Home() {
                     </Button>
                   )}
                   
-                  <div className="flex items-center space-x-2">
+                  <div 
+                    className="flex items-center space-x-2 cursor-pointer"
+                    onClick={() => user && setLocation(`/profile/${user.id}`)}
+                    data-testid="link-profile"
+                  >
                     {user?.profileImageUrl && (
                       <img 
                         src={user.profileImageUrl} 
@@ -182,23 +261,143 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Opponent */}
+              {isAuthenticated && (
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">Opponent:</label>
+                  <div className="flex space-x-2">
+                    <Button 
+                      variant={opponentType === 'ai' ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => setOpponentType('ai')}
+                      data-testid="button-opponent-ai"
+                    >
+                      AnveshAI
+                    </Button>
+                    <Button 
+                      variant={opponentType === 'human' ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => setOpponentType('human')}
+                      data-testid="button-opponent-human"
+                    >
+                      A friend (invite link)
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* AI Difficulty */}
+              {opponentType === 'ai' && (
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">AnveshAI Difficulty:</label>
+                  <Select value={aiDifficulty.toString()} onValueChange={(value) => setAiDifficulty(parseInt(value))}>
+                    <SelectTrigger data-testid="select-difficulty">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="800">Beginner (800)</SelectItem>
+                      <SelectItem value="1200">Intermediate (1200)</SelectItem>
+                      <SelectItem value="1600">Advanced (1600)</SelectItem>
+                      <SelectItem value="2000">Expert (2000)</SelectItem>
+                      <SelectItem value="2400">Master (2400)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Time Control */}
               <div className="space-y-3">
-                <label className="text-sm font-medium">AnveshAI Difficulty:</label>
-                <Select value={aiDifficulty.toString()} onValueChange={(value) => setAiDifficulty(parseInt(value))}>
-                  <SelectTrigger data-testid="select-difficulty">
+                <label className="text-sm font-medium">Time Control:</label>
+                <Select value={timeControlId} onValueChange={setTimeControlId}>
+                  <SelectTrigger data-testid="select-time-control">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="800">Beginner (800)</SelectItem>
-                    <SelectItem value="1200">Intermediate (1200)</SelectItem>
-                    <SelectItem value="1600">Advanced (1600)</SelectItem>
-                    <SelectItem value="2000">Expert (2000)</SelectItem>
-                    <SelectItem value="2400">Master (2400)</SelectItem>
+                    {TIME_CONTROL_PRESETS.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom...</SelectItem>
                   </SelectContent>
                 </Select>
+
+                {timeControlId === 'custom' && (
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <div className="space-y-1">
+                      <label className="text-xs text-muted-foreground">Minutes</label>
+                      <Input
+                        type="number"
+                        min="0.5"
+                        step="0.5"
+                        value={customMinutes}
+                        onChange={(e) => setCustomMinutes(e.target.value)}
+                        data-testid="input-custom-minutes"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs text-muted-foreground">Increment (s)</label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={customIncrement}
+                        onChange={(e) => setCustomIncrement(e.target.value)}
+                        data-testid="input-custom-increment"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs text-muted-foreground">Delay (s)</label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={customDelay}
+                        onChange={(e) => setCustomDelay(e.target.value)}
+                        data-testid="input-custom-delay"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs text-muted-foreground">Delay type</label>
+                      <Select value={customDelayMode} onValueChange={(value) => setCustomDelayMode(value as 'simple' | 'bronstein')}>
+                        <SelectTrigger data-testid="select-delay-mode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="simple">Simple</SelectItem>
+                          <SelectItem value="bronstein">Bronstein</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {/* Takebacks */}
+              {opponentType === 'ai' && (
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">Takebacks:</label>
+                  <Select value={rated ? 'disabled' : takebackOption} onValueChange={setTakebackOption} disabled={rated}>
+                    <SelectTrigger data-testid="select-takebacks">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAKEBACK_OPTIONS.map(option => (
+                        <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {/* Rated */}
+              {isAuthenticated && (
+                <label className="flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={rated}
+                    onCheckedChange={(checked) => setRated(checked === true)}
+                    data-testid="checkbox-rated"
+                  />
+                  <span>{opponentType === 'ai' ? 'Rated game (no takebacks or hints)' : 'Rated game'}</span>
+                </label>
+              )}
+
               {/* Start Game Button */}
               <Button 
                 className="w-full bg-primary hover:bg-primary/90 text-primary-foreground py-3 text-lg"
@@ -206,7 +405,9 @@ export default function Home() {
                 disabled={isCreatingGame}
                 data-testid="button-start-game"
               >
-                {isCreatingGame ? 'Creating Game...' : 'Start Game vs AnveshAI'}
+                {isCreatingGame
+                  ? 'Creating Game...'
+                  : isAuthenticated && opponentType === 'human' ? 'Create Game and Invite' : 'Start Game vs AnveshAI'}
               </Button>
             </CardContent>
           </Card>
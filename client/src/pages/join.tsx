@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'wouter';
+import { apiRequest, getErrorMessage } from '@/lib/queryClient';
+
+// Invite links land here; joining takes the empty seat and opens the game
+export default function Join() {
+  const { code } = useParams<{ code: string }>();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+
+    apiRequest('POST', `/api/games/join/${code}`, {})
+      .then(res => res.json())
+      .then(game => {
+        window.location.href = `/game/${game.id}`;
+      })
+      .catch((err: Error) => {
+        setError(getErrorMessage(err, "Could not join the game"));
+      });
+  }, [code]);
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center">
+      <div className="text-center">
+        {error ? (
+          <>
+            <div className="text-2xl font-semibold mb-2">Can't Join Game</div>
+            <div className="text-muted-foreground mb-4" data-testid="text-join-error">{error}</div>
+            <button
+              onClick={() => window.location.href = '/'}
+              className="bg-primary hover:bg-primary/90 px-4 py-2 rounded-md text-sm text-primary-foreground"
+              data-testid="button-home"
+            >
+              Home
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="text-2xl font-semibold mb-2">Joining Game...</div>
+            <div className="text-muted-foreground">Taking your seat at the board</div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
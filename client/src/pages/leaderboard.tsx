@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { getPublicName, type LeaderboardPage } from '@shared/profile';
+import type { TimeControlCategory } from '@shared/timeControl';
+
+const CATEGORIES: TimeControlCategory[] = ['bullet', 'blitz', 'rapid', 'classical'];
+const PAGE_SIZE = 25;
+
+// Rated players ranked by their rating in one time control category
+export default function Leaderboard() {
+  const { user, isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const [category, setCategory] = useState<TimeControlCategory>('blitz');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<LeaderboardPage>({
+    queryKey: [`/api/leaderboard?category=${category}&page=${page}&pageSize=${PAGE_SIZE}`],
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  const selectCategory = (next: TimeControlCategory) => {
+    setCategory(next);
+    setPage(1);
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="bg-card border-b border-border">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+            Leaderboard
+          </h1>
+          <Button
+            variant="outline"
+            onClick={() => setLocation(isAuthenticated ? '/' : '/guest-play')}
+            data-testid="button-back-home"
+          >
+            Home
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <Card className="max-w-3xl mx-auto">
+          <CardHeader>
+            <CardTitle>Top Players</CardTitle>
+            <div className="flex space-x-2 pt-2">
+              {CATEGORIES.map(option => (
+                <Button
+                  key={option}
+                  variant={category === option ? 'default' : 'outline'}
+                  size="sm"
+                  className="capitalize"
+                  onClick={() => selectCategory(option)}
+                  data-testid={`button-category-${option}`}
+                >
+                  {option}
+                </Button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isLoading ? (
+              <div className="text-center text-muted-foreground py-8">Loading...</div>
+            ) : !data || data.entries.length === 0 ? (
+              <div className="text-center text-muted-foreground py-8" data-testid="text-no-players">
+                Nobody has an established {category} rating yet. Play rated games to get on the board!
+              </div>
+            ) : (
+              data.entries.map(entry => (
+                <div
+                  key={entry.player.id}
+                  className={`flex items-center justify-between p-3 rounded-md cursor-pointer hover:bg-muted/70 ${entry.player.id === user?.id ? 'bg-primary/20' : 'bg-muted'}`}
+                  onClick={() => setLocation(`/profile/${entry.player.id}`)}
+                  data-testid={`leaderboard-entry-${entry.rank}`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <span className="font-mono w-8 text-muted-foreground">#{entry.rank}</span>
+                    {entry.player.profileImageUrl && (
+                      <img
+                        src={entry.player.profileImageUrl}
+                        alt=""
+                        className="w-8 h-8 rounded-full object-cover"
+                      />
+                    )}
+                    <span className="font-medium">{getPublicName(entry.player)}</span>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-mono text-lg">{Math.round(entry.rating)}</div>
+                    <div className="text-xs text-muted-foreground">{entry.gamesPlayed} games</div>
+                  </div>
+                </div>
+              ))
+            )}
+
+            {data && data.total > PAGE_SIZE && (
+              <div className="flex items-center justify-between pt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  data-testid="button-previous-page"
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">Page {page} of {pageCount}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount}
+                  data-testid="button-next-page"
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/hooks/useWebSocket';
+import { useChessGame } from '@/hooks/useChessGame';
+import { apiRequest, getErrorMessage, queryClient } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DEFAULT_TIME_CONTROL_PRESET, TIME_CONTROL_PRESETS, formatTimeControl } from '@shared/timeControl';
+import type { Seek, SeekColor } from '@shared/lobby';
+
+const COLOR_LABELS: Record<SeekColor, string> = {
+  white: '♔ White',
+  black: '♚ Black',
+  random: 'Random',
+};
+
+export default function Lobby() {
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { joinLobby, leaveLobby, subscribe } = useWebSocket();
+  const { createGame, isCreatingGame } = useChessGame();
+  const [timeControlId, setTimeControlId] = useState<string>(DEFAULT_TIME_CONTROL_PRESET);
+  const [color, setColor] = useState<SeekColor>('random');
+  const [rated, setRated] = useState(false);
+
+  const { data: seeks = [] } = useQuery<Seek[]>({
+    queryKey: ['/api/lobby/seeks'],
+  });
+
+  // The server pushes the whole seek list whenever it changes
+  useEffect(() => {
+    if (isLoading) return;
+
+    // The socket joins the lobby again by itself after reconnecting
+    joinLobby();
+
+    const unsubscribers = [
+      subscribe('seeks', (data: Seek[]) => {
+        queryClient.setQueryData(['/api/lobby/seeks'], data);
+      }),
+      subscribe('seek_accepted', (data: { gameId: string }) => {
+        toast({
+          title: "Challenge Accepted",
+          description: "Your opponent is ready. Starting the game...",
+        });
+        window.location.href = `/game/${data.gameId}`;
+      }),
+    ];
+
+    return () => {
+      leaveLobby();
+      unsubscribers.forEach(unsub => unsub());
+    };
+  }, [user?.id, isLoading]);
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createSeekMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/lobby/seeks', { timeControl: timeControlId, color, rated });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Seek Posted",
+        description: "Waiting for someone to accept your seek.",
+      });
+    },
+    onError: onError("Failed to post seek"),
+  });
+
+  const cancelSeekMutation = useMutation({
+    mutationFn: async (seekId: string) => {
+      await apiRequest('DELETE', `/api/lobby/seeks/${seekId}`);
+    },
+    onError: onError("Failed to cancel seek"),
+  });
+
+  const acceptSeekMutation = useMutation({
+    mutationFn: async (seekId: string) => {
+      const res = await apiRequest('POST', `/api/lobby/seeks/${seekId}/accept`, {});
+      return res.json();
+    },
+    onSuccess: (game) => {
+      window.location.href = `/game/${game.id}`;
+    },
+    onError: onError("Failed to accept seek"),
+  });
+
+  // A challenge link is an invite game; the game page shows the link to share
+  const handleCreateChallenge = () => {
+    const playerColor = color === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : color;
+    createGame({
+      playerColor,
+      aiDifficulty: 1600,
+      opponentType: 'human',
+      timeControl: timeControlId,
+      rated,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="bg-card border-b border-border">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+            Lobby
+          </h1>
+          <Button
+            variant="outline"
+            onClick={() => setLocation(isAuthenticated ? '/' : '/guest-play')}
+            data-testid="button-back-home"
+          >
+            Home
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto grid gap-8 md:grid-cols-[1fr_2fr]">
+
+          {/* New seek */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Find an Opponent</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Time control:</label>
+                <Select value={timeControlId} onValueChange={setTimeControlId}>
+                  <SelectTrigger data-testid="select-seek-time-control">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_CONTROL_PRESETS.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Play as:</label>
+                <div className="flex space-x-2">
+                  {(['white', 'random', 'black'] as SeekColor[]).map(option => (
+                    <Button
+                      key={option}
+                      variant={color === option ? 'default' : 'outline'}
+                      className="flex-1"
+                      onClick={() => setColor(option)}
+                      data-testid={`button-seek-color-${option}`}
+                    >
+                      {COLOR_LABELS[option]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="seek-rated"
+                  checked={rated}
+                  onCheckedChange={(checked) => setRated(checked === true)}
+                  data-testid="checkbox-seek-rated"
+                />
+                <label htmlFor="seek-rated" className="text-sm">Rated</label>
+              </div>
+
+              {isAuthenticated ? (
+                <div className="space-y-2">
+                  <Button
+                    className="w-full"
+                    onClick={() => createSeekMutation.mutate()}
+                    disabled={createSeekMutation.isPending}
+                    data-testid="button-post-seek"
+                  >
+                    {createSeekMutation.isPending ? 'Posting...' : 'Post Seek'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={handleCreateChallenge}
+                    disabled={isCreatingGame}
+                    data-testid="button-create-challenge"
+                  >
+                    Create Challenge Link
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  <a href="/api/login" className="text-primary underline">Sign in</a> to post seeks and challenge links. Guests can accept casual seeks.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Open seeks */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Open Seeks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {seeks.length === 0 ? (
+                <div className="text-center text-muted-foreground py-8" data-testid="text-no-seeks">
+                  No open seeks. Post one and wait for a challenger!
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {seeks.map(seek => {
+                    const isOwn = seek.userId === user?.id;
+                    return (
+                      <div
+                        key={seek.id}
+                        className="flex items-center justify-between p-3 rounded-md bg-muted"
+                        data-testid={`seek-${seek.id}`}
+                      >
+                        <div>
+                          <div className="font-medium">{isOwn ? 'You' : seek.name}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {formatTimeControl(seek.timeControl)} · <span className="capitalize">{seek.category}</span> · {seek.rated ? 'Rated' : 'Casual'} · {COLOR_LABELS[seek.color]}
+                          </div>
+                        </div>
+                        {isOwn ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => cancelSeekMutation.mutate(seek.id)}
+                            disabled={cancelSeekMutation.isPending}
+                            data-testid={`button-cancel-seek-${seek.id}`}
+                          >
+                            Cancel
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => acceptSeekMutation.mutate(seek.id)}
+                            disabled={acceptSeekMutation.isPending || (seek.rated && !isAuthenticated)}
+                            data-testid={`button-accept-seek-${seek.id}`}
+                          >
+                            Accept
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
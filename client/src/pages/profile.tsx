@@ -0,0 +1,201 @@
+import { useQuery } from '@tanstack/react-query';
+import { useLocation, useParams } from 'wouter';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PROVISIONAL_DEVIATION, getPublicName, type PlayerProfile, type ResultCounts } from '@shared/profile';
+
+const OUTCOME_STYLES = {
+  win: 'text-green-500',
+  draw: 'text-muted-foreground',
+  loss: 'text-red-500',
+};
+
+function ResultRow({ label, counts }: { label: string; counts: ResultCounts }) {
+  const games = counts.wins + counts.draws + counts.losses;
+  const score = games > 0 ? Math.round(((counts.wins + counts.draws / 2) / games) * 100) : null;
+  return (
+    <div className="flex items-center justify-between p-2 bg-muted rounded-md text-sm">
+      <span className="font-medium">{label}</span>
+      <span className="font-mono">
+        <span className="text-green-500">+{counts.wins}</span>{' '}
+        <span className="text-muted-foreground">={counts.draws}</span>{' '}
+        <span className="text-red-500">-{counts.losses}</span>
+        {score !== null && <span className="text-muted-foreground"> ({score}%)</span>}
+      </span>
+    </div>
+  );
+}
+
+// Public profile: ratings, results, openings and recent games of one player
+export default function Profile() {
+  const { userId } = useParams<{ userId: string }>();
+  const { user, isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const isOwnProfile = user?.id === userId;
+
+  const { data: profile, isLoading, error } = useQuery<PlayerProfile>({
+    queryKey: ['/api/users', userId, 'profile'],
+    enabled: !!userId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-2xl font-semibold mb-2">Loading Profile...</div>
+          <div className="text-muted-foreground">Gathering games and ratings</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-2xl font-semibold mb-2">Player Not Found</div>
+          <div className="text-muted-foreground">The requested player could not be found</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground">
+      <header className="bg-card border-b border-border">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            {profile.player.profileImageUrl && (
+              <img
+                src={profile.player.profileImageUrl}
+                alt="Profile"
+                className="w-10 h-10 rounded-full object-cover"
+              />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold" data-testid="text-profile-name">{getPublicName(profile.player)}</h1>
+              {profile.memberSince && (
+                <div className="text-sm text-muted-foreground">
+                  Member since {new Date(profile.memberSince).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setLocation('/leaderboard')} data-testid="button-leaderboard">
+              Leaderboard
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setLocation(isAuthenticated ? '/' : '/guest-play')}
+              data-testid="button-back-home"
+            >
+              Home
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto grid gap-6 md:grid-cols-2">
+
+          {/* Ratings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Ratings</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {profile.ratings.length === 0 ? (
+                <div className="text-sm text-muted-foreground" data-testid="text-no-ratings">No rated games yet</div>
+              ) : (
+                <div className="grid grid-cols-2 gap-2">
+                  {profile.ratings.map(rating => (
+                    <div key={rating.category} className="p-3 bg-muted rounded-md" data-testid={`rating-${rating.category}`}>
+                      <div className="text-sm text-muted-foreground capitalize">{rating.category}</div>
+                      <div className="font-mono text-xl">
+                        {Math.round(rating.rating)}
+                        {rating.deviation > PROVISIONAL_DEVIATION && <span className="text-muted-foreground">?</span>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{rating.gamesPlayed} games</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Results */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Results</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <ResultRow label="All games" counts={profile.totals} />
+              <ResultRow label="As White" counts={profile.byColor.white} />
+              <ResultRow label="As Black" counts={profile.byColor.black} />
+              <ResultRow label="Against AnveshAI" counts={profile.byOpponent.ai} />
+              <ResultRow label="Against players" counts={profile.byOpponent.human} />
+              <div className="text-sm text-muted-foreground pt-2" data-testid="text-average-accuracy">
+                {profile.averageAccuracy !== null
+                  ? `Average accuracy ${profile.averageAccuracy}% over ${profile.analysedGames} analysed games`
+                  : 'No analysed games yet'}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Favourite openings */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Favourite Openings</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {profile.favouriteOpenings.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No finished games yet</div>
+              ) : (
+                profile.favouriteOpenings.map(opening => (
+                  <ResultRow key={opening.name} label={`${opening.eco} ${opening.name}`} counts={opening} />
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Recent games */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Recent Games</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {profile.recentGames.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No games yet</div>
+              ) : (
+                profile.recentGames.map(game => (
+                  <div
+                    key={game.id}
+                    className={`flex items-center justify-between p-2 bg-muted rounded-md text-sm ${isOwnProfile ? 'cursor-pointer hover:bg-muted/70' : ''}`}
+                    onClick={isOwnProfile ? () => setLocation(`/game/${game.id}`) : undefined}
+                    data-testid={`recent-game-${game.id}`}
+                  >
+                    <div>
+                      <div className="font-medium">
+                        {game.color === 'white' ? '♔' : '♚'} vs {game.opponentName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        <span className="capitalize">{game.category}</span>
+                        {game.rated ? ' · Rated' : ' · Casual'}
+                        {game.opening && ` · ${game.opening}`}
+                      </div>
+                    </div>
+                    <div className={`font-mono ${game.outcome ? OUTCOME_STYLES[game.outcome] : 'text-muted-foreground'}`}>
+                      {game.result ?? 'In progress'}
+                    </div>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Strategy, type VerifyFunction } from "openid-client/passport";
 import passport from "passport";
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import MemoryStore from "memorystore";
@@ -23,6 +24,9 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+// The app's session middleware, kept so WebSocket upgrades can read the same sessions
+let sessionMiddleware: RequestHandler | undefined;
+
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   
@@ -82,7 +86,8 @@ async function upsertUser(
 
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
-  app.use(getSession());
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -228,3 +233,52 @@ export const optionalAuth: RequestHandler = async (req, res, next) => {
     return next();
   }
 };
+
+// Who is on the other end of a WebSocket, as far as their session cookie shows
+export interface SocketIdentity {
+  userId: string | null; // null for guests
+  guestId: string | null; // the guest's session id, as optionalAuth uses it; null for signed-in users
+  isAdmin: boolean;
+}
+
+/**
+ * Resolve the signed-in user or guest behind a WebSocket upgrade request from
+ * its session cookie, the same way optionalAuth does for HTTP requests.
+ */
+export function authenticateUpgrade(req: IncomingMessage): Promise<SocketIdentity> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve({ userId: null, guestId: null, isAdmin: false });
+    }
+
+    // There's no response to an upgrade, so the session middleware gets a stand-in
+    sessionMiddleware(req as any, {} as any, async () => {
+      const request = req as any;
+      const guest: SocketIdentity = { userId: null, guestId: request.sessionID ?? null, isAdmin: false };
+
+      try {
+        const user = request.session?.passport?.user;
+        if (!user?.expires_at) {
+          return resolve(guest);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (now > user.expires_at) {
+          if (!user.refresh_token) {
+            return resolve(guest);
+          }
+          const config = await getOidcConfig();
+          const tokenResponse = await client.refreshTokenGrant(config, user.refresh_token);
+          updateUserSession(user, tokenResponse);
+          request.session.save();
+        }
+
+        const account = await storage.getUser(user.claims.sub);
+        resolve({ userId: user.claims.sub, guestId: null, isAdmin: !!account?.isAdmin });
+      } catch (error) {
+        console.error('[authenticateUpgrade] Could not resolve the session, treating as guest:', error);
+        resolve(guest);
+      }
+    });
+  });
+}
@@ -1,22 +1,170 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
+import { DEFAULT_POSITION } from "chess.js";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, optionalAuth } from "./replitAuth";
-import { ChessGameService } from "./services/chess";
-import { stockfishEngine } from "./services/stockfish";
-import { insertGameSchema, insertMoveSchema } from "@shared/schema";
-
+import { setupAuth, isAuthenticated, optionalAuth, authenticateUpgrade } from "./replitAuth";
+import { ChessGameService, getFullmoveNumber } from "./services/chess";
+import { enginePool } from "./services/enginePool";
+import { liveAnalysis } from "./services/liveAnalysis";
+import { hintService, type HintLevel } from "./services/hints";
+import { rateGame } from "./services/rating";
+import { getLeaderboard, getPlayerProfile } from "./services/profile";
+import { chargeMove, getClockState, getMoveBudget, getTimeControl, getTimeoutResult, sideToMove, startClockSweeper } from "./services/clock";
+import { insertGameSchema, insertMoveSchema, type Game, type RatingChange } from "@shared/schema";
+import { DEFAULT_TIME_CONTROL_PRESET, parseTimeControl } from "@shared/timeControl";
+import { getTakebacksLeft, takebackSettingsSchema } from "@shared/takeback";
+import {
+  AI_PLAYER_ID,
+  aiDifficultySchema,
+  getOpponentColor,
+  getPlayerColor,
+  isAIGame,
+  playerColorSchema,
+  type PlayerColor,
+} from "@shared/players";
+import { seekRequestSchema, type Seek } from "@shared/lobby";
+import { leaderboardQuerySchema } from "@shared/profile";
+import { gameListQuerySchema } from "@shared/gameList";
+import { getPgnMoves, identifyOpening } from "@shared/openings";
+import { lobby, MAX_SEEKS_PER_USER } from "./services/lobby";
+import { analysisJobs } from "./services/analysisJobs";
+import { analysisRequestSchema, isAnalysisJobFinished } from "@shared/analysis";
+import { nanoid } from "nanoid";
+import { fromZodError } from "zod-validation-error";
+
+// Identity fields are set from the session on connection, never from client messages
 interface GameSocket extends WebSocket {
   gameId?: string;
   userId?: string;
+  guestId?: string;
   isAdmin?: boolean;
+  inLobby?: boolean;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  const httpServer = createServer(app);
+
+  // WebSocket setup for real-time features
+  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+
+  // Push a message to every socket following a game
+  const broadcastToGame = (gameId: string, type: string, data: any) => {
+    const message = JSON.stringify({ type, data });
+    wss.clients.forEach((client: GameSocket) => {
+      if (client.gameId === gameId && client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  };
+
+  // Game state only ever comes from here, after the server has applied a change;
+  // clients can't relay positions of their own
+  const broadcastGameState = (game: Game) => {
+    broadcastToGame(game.id, 'game_state', {
+      gameId: game.id,
+      status: game.status,
+      result: game.result,
+      termination: game.termination,
+      currentFen: game.currentFen,
+      pgn: game.pgn,
+      drawOfferedBy: game.drawOfferedBy,
+    });
+  };
+
+  const broadcastToLobby = (type: string, data: any) => {
+    const message = JSON.stringify({ type, data });
+    wss.clients.forEach((client: GameSocket) => {
+      if (client.inLobby && client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  };
+
+  const sendToUser = (userId: string, type: string, data: any) => {
+    const message = JSON.stringify({ type, data });
+    wss.clients.forEach((client: GameSocket) => {
+      if (client.userId === userId && client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  };
+
+  // Finish a game once, however it ended, and tell everyone watching it
+  const completeGame = async (gameId: string, result: string, termination: string, updates: Partial<Game> = {}) => {
+    const current = await storage.getGame(gameId);
+    if (!current || current.status !== 'active') return current;
+
+    const game = await storage.updateGame(gameId, {
+      ...updates,
+      status: 'completed',
+      result,
+      termination,
+      opening: identifyOpening(getPgnMoves(current.pgn))?.name ?? null,
+    });
+    hintService.forget(gameId);
+
+    // The game is over whether or not its ratings could be updated
+    let ratingChanges: RatingChange[] = [];
+    try {
+      ratingChanges = await rateGame(game);
+    } catch (error) {
+      console.error("Error rating game:", error);
+    }
+
+    broadcastGameState(game);
+    broadcastToGame(gameId, 'clock', getClockState(game));
+    broadcastToGame(gameId, 'game_over', { gameId, result, termination, ratingChanges });
+    return game;
+  };
+
+  // The colour the requesting user or guest plays in a game, or null if they aren't one of its players
+  const getRequestColor = (req: any, game: Game) => {
+    return req.isGuest
+      ? getPlayerColor(game, null, req.guestId)
+      : getPlayerColor(game, req.user.claims.sub);
+  };
+
+  // Why the requesting user may not analyse a game, or null if they may: players can once
+  // the game is over, admins any time, the same as live analysis over the socket
+  const getAnalysisDenial = async (req: any, game: Game) => {
+    const user = req.isGuest ? undefined : await storage.getUser(req.user.claims.sub);
+    if (user?.isAdmin) return null;
+    if (!getRequestColor(req, game)) {
+      return { status: 403, message: "Access denied" };
+    }
+    if (game.status === 'active') {
+      return { status: 400, message: "Games can only be analysed once they are over" };
+    }
+    return null;
+  };
+
+  const flagGame = (game: Game) => {
+    const { result, termination, updates } = getTimeoutResult(game);
+    return completeGame(game.id, result, termination, updates);
+  };
+
+  startClockSweeper(async (game) => {
+    await flagGame(game);
+  });
+
+  lobby.onChange(seeks => broadcastToLobby('seeks', seeks));
+  lobby.startSweeper();
+
+  analysisJobs.onChange((job, subscribers, move) => {
+    for (const userId of subscribers) {
+      if (isAnalysisJobFinished(job.status)) {
+        sendToUser(userId, 'analysis_complete', { job });
+      } else {
+        sendToUser(userId, 'analysis_progress', { job, move });
+      }
+    }
+  });
+  analysisJobs.recover().catch(error => console.error("Error resuming analysis jobs:", error));
+
   // Auth routes
   app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
@@ -32,44 +180,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Game routes
   app.post('/api/games', optionalAuth, async (req: any, res) => {
     try {
-      const { playerColor, aiDifficulty } = req.body;
+      const parsedColor = playerColorSchema.safeParse(req.body.playerColor);
+      if (!parsedColor.success) {
+        return res.status(400).json({ message: fromZodError(parsedColor.error).message });
+      }
+      const playerColor = parsedColor.data;
+      const opponentType = req.body.opponentType === 'human' ? 'human' : 'ai';
+      if (opponentType === 'human' && req.isGuest) {
+        return res.status(401).json({ message: "Sign in to invite another player" });
+      }
+
+      // Either a preset id or a full time control
+      const parsedTimeControl = parseTimeControl(req.body.timeControl ?? DEFAULT_TIME_CONTROL_PRESET);
+      if (!parsedTimeControl.success) {
+        return res.status(400).json({ message: fromZodError(parsedTimeControl.error).message });
+      }
+      const timeControl = parsedTimeControl.data;
+      const startingTime = timeControl.stages[0].time;
+
+      // Ratings are kept per difficulty, so only the offered ones are allowed
+      const parsedDifficulty = aiDifficultySchema.safeParse(req.body.aiDifficulty ?? undefined);
+      if (!parsedDifficulty.success) {
+        return res.status(400).json({ message: fromZodError(parsedDifficulty.error).message });
+      }
+      const aiDifficulty = parsedDifficulty.data;
+
+      // Only signed-in players can play rated, and rated games never allow takebacks
+      const rated = !req.isGuest && req.body.rated === true;
+      const parsedTakebacks = takebackSettingsSchema.safeParse({
+        policy: req.body.takebackPolicy ?? undefined,
+        limit: req.body.takebackLimit ?? undefined,
+      });
+      if (!parsedTakebacks.success) {
+        return res.status(400).json({ message: fromZodError(parsedTakebacks.error).message });
+      }
+      const takebacks = parsedTakebacks.data;
+      // Takebacks are a favour AnveshAI grants; human opponents don't
+      const takebackPolicy = rated || opponentType === 'human' ? 'disabled' : takebacks.policy;
+      const takebackSettings = {
+        rated,
+        takebackPolicy,
+        takebackLimit: takebackPolicy === 'limited' ? takebacks.limit : null,
+      };
 
       const chessGame = new ChessGameService();
       const gameState = chessGame.getGameState();
 
       let gameData;
-      if (req.isGuest) {
+      if (opponentType === 'human') {
+        // The other seat stays empty until someone joins with the invite code
+        const userId = req.user.claims.sub;
+        gameData = {
+          whitePlayerId: playerColor === 'white' ? userId : null,
+          blackPlayerId: playerColor === 'black' ? userId : null,
+          guestId: null,
+          isGuestGame: false,
+          opponentType,
+          inviteCode: nanoid(10),
+          status: 'waiting' as const,
+          playerColor,
+          aiDifficulty,
+          currentFen: gameState.fen,
+          pgn: gameState.pgn,
+          timeControl: startingTime,
+          timeControlSpec: timeControl,
+          whiteTimeLeft: startingTime,
+          blackTimeLeft: startingTime,
+          ...takebackSettings,
+        };
+      } else if (req.isGuest) {
         // Guest user - assign guest to chosen color, AI to opposite color
         gameData = {
-          whitePlayerId: playerColor === 'white' ? null : 'anveshai',
-          blackPlayerId: playerColor === 'black' ? null : 'anveshai',
+          whitePlayerId: playerColor === 'white' ? null : AI_PLAYER_ID,
+          blackPlayerId: playerColor === 'black' ? null : AI_PLAYER_ID,
           guestId: req.guestId,
           isGuestGame: true,
           status: 'active' as const,
           playerColor,
-          aiDifficulty: aiDifficulty || 1600,
+          aiDifficulty,
           currentFen: gameState.fen,
           pgn: gameState.pgn,
-          timeControl: 900,
-          whiteTimeLeft: 900,
-          blackTimeLeft: 900,
+          timeControl: startingTime,
+          timeControlSpec: timeControl,
+          whiteTimeLeft: startingTime,
+          blackTimeLeft: startingTime,
+          ...takebackSettings,
         };
       } else {
         // Authenticated user - assign user to chosen color, AI to opposite color
         const userId = req.user.claims.sub;
         gameData = {
-          whitePlayerId: playerColor === 'white' ? userId : 'anveshai',
-          blackPlayerId: playerColor === 'black' ? userId : 'anveshai',
+          whitePlayerId: playerColor === 'white' ? userId : AI_PLAYER_ID,
+          blackPlayerId: playerColor === 'black' ? userId : AI_PLAYER_ID,
           guestId: null,
           isGuestGame: false,
           status: 'active' as const,
           playerColor,
-          aiDifficulty: aiDifficulty || 1600,
+          aiDifficulty,
           currentFen: gameState.fen,
           pgn: gameState.pgn,
-          timeControl: 900,
-          whiteTimeLeft: 900,
-          blackTimeLeft: 900,
+          timeControl: startingTime,
+          timeControlSpec: timeControl,
+          whiteTimeLeft: startingTime,
+          blackTimeLeft: startingTime,
+          ...takebackSettings,
         };
       }
 
@@ -81,6 +295,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The signed-in player's own games, a page at a time
+  app.get('/api/games', isAuthenticated, async (req: any, res) => {
+    try {
+      const parsedQuery = gameListQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: fromZodError(parsedQuery.error).message });
+      }
+
+      const page = await storage.listUserGames(req.user.claims.sub, parsedQuery.data);
+      res.json(page);
+    } catch (error) {
+      console.error("Error listing games:", error);
+      res.status(500).json({ message: "Failed to list games" });
+    }
+  });
+
+  // Take the empty seat of a human game from its invite link
+  app.post('/api/games/join/:code', optionalAuth, async (req: any, res) => {
+    try {
+      const game = await storage.getGameByInviteCode(req.params.code);
+      if (!game || isAIGame(game)) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      // Following your own link again just leads back to the game
+      if (getRequestColor(req, game)) {
+        return res.json(game);
+      }
+
+      if (game.status !== 'waiting') {
+        return res.status(409).json({ message: "This game already has two players" });
+      }
+      if (game.rated && req.isGuest) {
+        return res.status(401).json({ message: "Sign in to play rated games" });
+      }
+
+      const seat = getOpponentColor(game.playerColor as PlayerColor);
+      const seatUpdate: Partial<Game> = req.isGuest
+        ? { guestId: req.guestId, isGuestGame: true }
+        : seat === 'white' ? { whitePlayerId: req.user.claims.sub } : { blackPlayerId: req.user.claims.sub };
+
+      const updatedGame = await storage.updateGame(game.id, {
+        ...seatUpdate,
+        status: 'active',
+        lastMoveAt: new Date(),
+      });
+      broadcastGameState(updatedGame);
+      broadcastToGame(game.id, 'opponent_joined', { gameId: game.id, color: seat });
+      broadcastToGame(game.id, 'clock', getClockState(updatedGame));
+
+      res.json(updatedGame);
+    } catch (error) {
+      console.error("Error joining game:", error);
+      res.status(500).json({ message: "Failed to join game" });
+    }
+  });
+
   app.get('/api/games/:id', optionalAuth, async (req: any, res) => {
     try {
       const game = await storage.getGame(req.params.id);
@@ -88,13 +359,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      // Verify guest user can only access their own games
-      if (req.isGuest && game.guestId !== req.guestId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      // Verify authenticated user can only access their own games
-      if (!req.isGuest && game.whitePlayerId !== req.user.claims.sub && game.blackPlayerId !== req.user.claims.sub) {
+      // Players can only access their own games
+      if (!getRequestColor(req, game)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
@@ -108,37 +374,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/games/:id/moves', optionalAuth, async (req: any, res) => {
     try {
       const gameId = req.params.id;
-      const { move } = req.body;
+      const { move, promotion } = req.body;
 
       const game = await storage.getGame(gameId);
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      // Verify ownership - guest or authenticated user
-      if (req.isGuest) {
-        if (game.guestId !== req.guestId || !game.isGuestGame) {
-          return res.status(403).json({ message: "Access denied" });
-        }
-      } else {
-        const userId = req.user.claims.sub;
-        if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (game.status === 'waiting') {
+        return res.status(400).json({ message: "Waiting for your opponent to join" });
+      }
+
+      if (game.status !== 'active') {
+        return res.status(400).json({ message: "Game is not active" });
       }
 
       // Verify it's the player's turn
-      const chessGame = new ChessGameService(game.currentFen);
+      const chessGame = ChessGameService.fromGame(game);
       const gameState = chessGame.getGameState();
 
-      const isPlayerTurn = (gameState.turn === 'w' && game.playerColor === 'white') ||
-                          (gameState.turn === 'b' && game.playerColor === 'black');
-
-      if (!isPlayerTurn) {
+      if (sideToMove(gameState.fen) !== playerColor) {
         return res.status(400).json({ message: "Not your turn" });
       }
 
-      const playerMove = chessGame.makeMove(move);
+      // The clock is authoritative: a move that arrives after the flag fell doesn't count
+      const playerClock = chargeMove(game);
+      if (playerClock.flagged) {
+        const finishedGame = await flagGame(game);
+        return res.status(400).json({ message: "Time has run out", game: finishedGame, gameOver: true });
+      }
+
+      const moveError = chessGame.getMoveError(move, promotion);
+      if (moveError) {
+        return res.status(400).json({ message: moveError });
+      }
+
+      const playerMove = chessGame.makeMove(move, promotion);
       if (!playerMove) {
         return res.status(400).json({ message: "Invalid move" });
       }
@@ -146,58 +423,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Save player move
       const moveData = {
         gameId,
-        moveNumber: Math.floor(chessGame.getGameState().moves.length / 2) + 1,
+        moveNumber: getFullmoveNumber(gameState.fen),
         side: gameState.turn,
         san: playerMove.san,
         uci: playerMove.uci,
         fen: playerMove.fen,
+        timeSpent: playerClock.timeSpent,
+        timeLeft: gameState.turn === 'w' ? playerClock.updates.whiteTimeLeft : playerClock.updates.blackTimeLeft,
       };
 
       await storage.addMove(moveData);
-      await storage.updateGame(gameId, {
+      let updatedGame = await storage.updateGame(gameId, {
         currentFen: playerMove.fen,
         pgn: chessGame.getGameState().pgn,
-        lastMoveAt: new Date(),
+        drawOfferedBy: null, // moving declines an open draw offer
+        ...playerClock.updates,
       });
+      liveAnalysis.positionChanged(gameId, playerMove.fen);
+      broadcastGameState(updatedGame);
+      if (!isAIGame(game)) {
+        broadcastToGame(gameId, 'move_made', { gameId, move: playerMove, color: playerColor });
+      }
 
       // Check if game is over
       const newGameState = chessGame.getGameState();
       if (newGameState.isGameOver) {
-        let result = '1/2-1/2';
-        if (newGameState.isCheckmate) {
-          result = gameState.turn === 'w' ? '0-1' : '1-0';
-        }
-
-        await storage.updateGame(gameId, {
-          status: 'completed',
-          result,
-        });
-
+        await completeGame(gameId, chessGame.getResult()!, chessGame.getTermination()!);
         res.json({ move: playerMove, gameState: newGameState, gameOver: true });
         return;
       }
+      broadcastToGame(gameId, 'clock', getClockState(updatedGame));
+
+      // A human opponent answers with their own move request
+      if (!isAIGame(game)) {
+        res.json({ playerMove, aiMove: null, gameState: newGameState, gameOver: false });
+        return;
+      }
 
       // Make AI move
-      const aiMove = await chessGame.makeAIMove(game.aiDifficulty);
+      const aiMove = await chessGame.makeAIMove(game.aiDifficulty, getMoveBudget(updatedGame));
+
+      // The game may have ended (a flag, a resignation) or gone back (a takeback) while AnveshAI thought
+      const currentGame = await storage.getGame(gameId);
+      if (!currentGame || currentGame.status !== 'active' || currentGame.currentFen !== playerMove.fen) {
+        res.json({ playerMove, aiMove: null, gameState: newGameState, gameOver: currentGame?.status !== 'active' });
+        return;
+      }
+      updatedGame = currentGame;
+
       if (aiMove) {
+        // AnveshAI's thinking time comes off its own clock
+        const aiClock = chargeMove(updatedGame);
+        if (aiClock.flagged) {
+          await flagGame(updatedGame);
+          res.json({ playerMove, aiMove: null, gameState: newGameState, gameOver: true });
+          return;
+        }
+
+        const aiSide = chessGame.getGameState().turn === 'w' ? 'b' : 'w';
         const aiMoveData = {
           gameId,
-          moveNumber: Math.floor(chessGame.getGameState().moves.length / 2) + 1,
-          side: chessGame.getGameState().turn === 'w' ? 'b' : 'w',
+          moveNumber: getFullmoveNumber(playerMove.fen),
+          side: aiSide,
           san: aiMove.san,
           uci: aiMove.uci,
           fen: aiMove.fen,
+          timeSpent: aiClock.timeSpent,
+          timeLeft: aiSide === 'w' ? aiClock.updates.whiteTimeLeft : aiClock.updates.blackTimeLeft,
         };
 
         await storage.addMove(aiMoveData);
-        await storage.updateGame(gameId, {
+        updatedGame = await storage.updateGame(gameId, {
           currentFen: aiMove.fen,
           pgn: chessGame.getGameState().pgn,
-          lastMoveAt: new Date(),
+          ...aiClock.updates,
         });
+        liveAnalysis.positionChanged(gameId, aiMove.fen);
+        broadcastGameState(updatedGame);
       }
 
       const finalGameState = chessGame.getGameState();
+      if (finalGameState.isGameOver) {
+        await completeGame(gameId, chessGame.getResult()!, chessGame.getTermination()!);
+      } else {
+        broadcastToGame(gameId, 'clock', getClockState(updatedGame));
+      }
+
       res.json({ 
         playerMove, 
         aiMove, 
@@ -211,6 +522,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Take back the player's last move together with AnveshAI's reply
+  app.post('/api/games/:id/takeback', optionalAuth, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (game.status !== 'active') {
+        return res.status(400).json({ message: "Game is not active" });
+      }
+
+      if (!isAIGame(game)) {
+        return res.status(400).json({ message: "Takebacks are only available against AnveshAI" });
+      }
+
+      const takebacksLeft = getTakebacksLeft(game);
+      if (takebacksLeft === 0) {
+        return res.status(400).json({
+          message: game.rated || game.takebackPolicy === 'disabled'
+            ? "Takebacks are not allowed in this game"
+            : "No takebacks left in this game",
+        });
+      }
+
+      if (sideToMove(game.currentFen) !== playerColor) {
+        return res.status(400).json({ message: "Wait for AnveshAI to move first" });
+      }
+
+      const chessGame = ChessGameService.fromGame(game);
+      const undone = chessGame.takeBack(2);
+      if (!undone) {
+        return res.status(400).json({ message: "There is no move to take back" });
+      }
+      await storage.deleteLastMoves(gameId, undone.length);
+
+      // Each clock goes back to what it showed after that side's last remaining move
+      const updates: Partial<Game> = {};
+      const timeControl = getTimeControl(game);
+      if (timeControl) {
+        const remainingMoves = await storage.getGameMoves(gameId);
+        const clockAfterLastMove = (side: 'white' | 'black') => {
+          const last = remainingMoves.filter(move => sideToMove(move.fen) !== side).pop();
+          return last?.timeLeft ?? timeControl.stages[0].time;
+        };
+        updates.whiteTimeLeft = clockAfterLastMove('white');
+        updates.blackTimeLeft = clockAfterLastMove('black');
+      }
+
+      const gameState = chessGame.getGameState();
+      const updatedGame = await storage.updateGame(gameId, {
+        ...updates,
+        currentFen: gameState.fen,
+        pgn: gameState.pgn,
+        takebacksUsed: (game.takebacksUsed ?? 0) + 1,
+        lastMoveAt: new Date(),
+      });
+      liveAnalysis.positionChanged(gameId, gameState.fen);
+
+      broadcastGameState(updatedGame);
+      broadcastToGame(gameId, 'takeback', { gameId, moves: undone });
+      broadcastToGame(gameId, 'clock', getClockState(updatedGame));
+
+      res.json({ game: updatedGame, undone, takebacksLeft: getTakebacksLeft(updatedGame) });
+    } catch (error) {
+      console.error("Error taking back move:", error);
+      res.status(500).json({ message: "Failed to take back move" });
+    }
+  });
+
+  // Engine hint for the player's move, revealed a level at a time
+  app.post('/api/games/:id/hint', optionalAuth, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+      const level = Number(req.body.level ?? 1);
+      if (![1, 2, 3].includes(level)) {
+        return res.status(400).json({ message: "Hint level must be 1, 2 or 3" });
+      }
+
+      const game = await storage.getGame(gameId);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (game.status !== 'active') {
+        return res.status(400).json({ message: "Game is not active" });
+      }
+
+      if (!isAIGame(game)) {
+        return res.status(400).json({ message: "Hints are only available against AnveshAI" });
+      }
+
+      if (game.rated) {
+        return res.status(400).json({ message: "Hints are not available in rated games" });
+      }
+
+      if (sideToMove(game.currentFen) !== playerColor) {
+        return res.status(400).json({ message: "Hints are only available on your turn" });
+      }
+
+      const { hint, newPosition } = await hintService.getHint(gameId, game.currentFen, level as HintLevel);
+      let hintsUsed = game.hintsUsed ?? 0;
+      if (newPosition) {
+        const updatedGame = await storage.updateGame(gameId, { hintsUsed: hintsUsed + 1 });
+        hintsUsed = updatedGame.hintsUsed;
+      }
+
+      res.json({ hint, hintsUsed });
+    } catch (error) {
+      console.error("Error getting hint:", error);
+      res.status(500).json({ message: "Failed to get hint" });
+    }
+  });
+
   app.get('/api/games/:id/moves', optionalAuth, async (req: any, res) => {
     try {
       const game = await storage.getGame(req.params.id);
@@ -218,16 +656,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      // Verify ownership - guest or authenticated user
-      if (req.isGuest) {
-        if (game.guestId !== req.guestId || !game.isGuestGame) {
-          return res.status(403).json({ message: "Access denied" });
-        }
-      } else {
-        const userId = req.user.claims.sub;
-        if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
       const moves = await storage.getGameMoves(req.params.id);
@@ -238,6 +670,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/games/:id/ratings', optionalAuth, async (req: any, res) => {
+    try {
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      if (!getRequestColor(req, game)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const changes = await storage.getGameRatingChanges(game.id);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching rating changes:", error);
+      res.status(500).json({ message: "Failed to fetch rating changes" });
+    }
+  });
+
+  // Ratings are public, so anyone can see how strong a player is
+  app.get('/api/users/:id/ratings', async (req, res) => {
+    try {
+      const ratings = await storage.getPlayerRatings(req.params.id);
+      res.json(ratings);
+    } catch (error) {
+      console.error("Error fetching ratings:", error);
+      res.status(500).json({ message: "Failed to fetch ratings" });
+    }
+  });
+
+  app.get('/api/leaderboard', async (req, res) => {
+    try {
+      const parsedQuery = leaderboardQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ message: fromZodError(parsedQuery.error).message });
+      }
+
+      res.json(await getLeaderboard(parsedQuery.data));
+    } catch (error) {
+      console.error("Error fetching leaderboard:", error);
+      res.status(500).json({ message: "Failed to fetch leaderboard" });
+    }
+  });
+
+  app.get('/api/users/:id/profile', async (req, res) => {
+    try {
+      const profile = await getPlayerProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      res.status(500).json({ message: "Failed to fetch profile" });
+    }
+  });
+
+  // Lobby routes
+  app.get('/api/lobby/seeks', async (req, res) => {
+    try {
+      res.json(lobby.list());
+    } catch (error) {
+      console.error("Error fetching seeks:", error);
+      res.status(500).json({ message: "Failed to fetch seeks" });
+    }
+  });
+
+  app.post('/api/lobby/seeks', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const parsedSeek = seekRequestSchema.safeParse(req.body);
+      if (!parsedSeek.success) {
+        return res.status(400).json({ message: fromZodError(parsedSeek.error).message });
+      }
+      const parsedTimeControl = parseTimeControl(parsedSeek.data.timeControl ?? DEFAULT_TIME_CONTROL_PRESET);
+      if (!parsedTimeControl.success) {
+        return res.status(400).json({ message: fromZodError(parsedTimeControl.error).message });
+      }
+
+      if (lobby.countFor(userId) >= MAX_SEEKS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_SEEKS_PER_USER} open seeks` });
+      }
+
+      const user = await storage.getUser(userId);
+      const name = user?.firstName || user?.email?.split('@')[0] || 'Player';
+      const seek = lobby.add(userId, name, parsedTimeControl.data, parsedSeek.data.color, parsedSeek.data.rated);
+      res.json(seek);
+    } catch (error) {
+      console.error("Error creating seek:", error);
+      res.status(500).json({ message: "Failed to create seek" });
+    }
+  });
+
+  app.delete('/api/lobby/seeks/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const seek = lobby.get(req.params.id);
+      if (!seek) {
+        return res.status(404).json({ message: "Seek not found" });
+      }
+      if (seek.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      lobby.take(seek.id);
+      res.json({ message: "Seek cancelled" });
+    } catch (error) {
+      console.error("Error cancelling seek:", error);
+      res.status(500).json({ message: "Failed to cancel seek" });
+    }
+  });
+
+  // Accepting a seek starts the game straight away, with both seats taken
+  app.post('/api/lobby/seeks/:id/accept', optionalAuth, async (req: any, res) => {
+    let taken: Seek | undefined;
+    try {
+      const seek = lobby.get(req.params.id);
+      if (!seek) {
+        return res.status(404).json({ message: "Seek not found or already taken" });
+      }
+
+      const userId = req.isGuest ? null : req.user.claims.sub;
+      if (userId === seek.userId) {
+        return res.status(400).json({ message: "You can't accept your own seek" });
+      }
+      if (seek.rated && req.isGuest) {
+        return res.status(401).json({ message: "Sign in to play rated games" });
+      }
+
+      // Claim the seek before the first await, so nobody else can accept it meanwhile
+      taken = lobby.take(seek.id);
+
+      const seekerColor = seek.color === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : seek.color;
+      const startingTime = seek.timeControl.stages[0].time;
+      const gameState = new ChessGameService().getGameState();
+
+      const game = await storage.createGame({
+        whitePlayerId: seekerColor === 'white' ? seek.userId : userId,
+        blackPlayerId: seekerColor === 'black' ? seek.userId : userId,
+        guestId: req.isGuest ? req.guestId : null,
+        isGuestGame: req.isGuest,
+        opponentType: 'human',
+        status: 'active',
+        playerColor: seekerColor,
+        currentFen: gameState.fen,
+        pgn: gameState.pgn,
+        timeControl: startingTime,
+        timeControlSpec: seek.timeControl,
+        whiteTimeLeft: startingTime,
+        blackTimeLeft: startingTime,
+        rated: seek.rated,
+        takebackPolicy: 'disabled',
+      });
+
+      // The seeker is somewhere in the lobby; point them at the new game
+      sendToUser(seek.userId, 'seek_accepted', { seekId: seek.id, gameId: game.id });
+
+      res.json(game);
+    } catch (error) {
+      if (taken) lobby.restore(taken);
+      console.error("Error accepting seek:", error);
+      res.status(500).json({ message: "Failed to accept seek" });
+    }
+  });
+
   // Admin routes
   app.get('/api/admin/games', isAuthenticated, async (req: any, res) => {
     try {
@@ -256,9 +854,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Analysis routes (restricted to authenticated users)
+  app.get('/api/admin/engine/stats', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      if (!user?.isAdmin) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      res.json(enginePool.getStats());
+    } catch (error) {
+      console.error("Error fetching engine stats:", error);
+      res.status(500).json({ message: "Failed to fetch engine stats" });
+    }
+  });
+
+  // Analysis routes (restricted to authenticated users). Analyses run as background jobs
+  // whose progress is pushed to the requester over the WebSocket
   app.post('/api/games/:id/analyze', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const gameId = req.params.id;
       const game = await storage.getGame(gameId);
 
@@ -266,28 +882,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      const chessGame = new ChessGameService();
-      chessGame.loadPGN(game.pgn);
+      const denial = await getAnalysisDenial(req, game);
+      if (denial) {
+        return res.status(denial.status).json({ message: denial.message });
+      }
 
-      const analysisResult = await chessGame.analyzeGame();
+      const validation = analysisRequestSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: fromZodError(validation.error).toString() });
+      }
 
-      const analysis = await storage.createAnalysis({
-        gameId,
-        whiteAccuracy: analysisResult.whiteAccuracy,
-        blackAccuracy: analysisResult.blackAccuracy,
-        blunders: analysisResult.blunders,
-        mistakes: analysisResult.mistakes,
-        inaccuracies: analysisResult.inaccuracies,
-        evaluationGraph: analysisResult.evaluationGraph,
-      });
+      // One analysis of a game at a time; asking again just follows the running one
+      const latestJob = await storage.getLatestAnalysisJob(gameId);
+      if (latestJob && !isAnalysisJobFinished(latestJob.status)) {
+        analysisJobs.subscribe(latestJob.id, userId);
+        return res.status(202).json(latestJob);
+      }
 
-      res.json({ analysis, moves: analysisResult.moves });
+      const job = await analysisJobs.enqueue(game, userId, validation.data.depth);
+      res.status(202).json(job);
     } catch (error) {
-      console.error("Error analyzing game:", error);
+      console.error("Error queueing analysis:", error);
       res.status(500).json({ message: "Failed to analyze game" });
     }
   });
 
+  app.get('/api/games/:id/analysis/job', isAuthenticated, async (req: any, res) => {
+    try {
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      const denial = await getAnalysisDenial(req, game);
+      if (denial) {
+        return res.status(denial.status).json({ message: denial.message });
+      }
+
+      const job = await storage.getLatestAnalysisJob(game.id);
+      if (!job) {
+        return res.status(404).json({ message: "This game has not been analysed" });
+      }
+      // Whoever looks at a running job hears how it goes from then on
+      if (!isAnalysisJobFinished(job.status)) {
+        analysisJobs.subscribe(job.id, req.user.claims.sub);
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching analysis job:", error);
+      res.status(500).json({ message: "Failed to fetch analysis job" });
+    }
+  });
+
+  app.delete('/api/games/:id/analysis/job', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const job = await storage.getLatestAnalysisJob(req.params.id);
+      if (!job || isAnalysisJobFinished(job.status)) {
+        return res.status(404).json({ message: "No analysis of this game is running" });
+      }
+
+      // Only whoever asked for an analysis may call it off
+      if (job.requestedBy !== userId) {
+        const user = await storage.getUser(userId);
+        if (!user?.isAdmin) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+
+      res.json(await analysisJobs.cancel(job));
+    } catch (error) {
+      console.error("Error cancelling analysis:", error);
+      res.status(500).json({ message: "Failed to cancel analysis" });
+    }
+  });
+
   // Get learning statistics
   app.get('/api/learning/stats', async (req, res) => {
     try {
@@ -326,9 +995,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/games/:id/analysis', optionalAuth, async (req: any, res) => {
     try {
-      const analysis = await storage.getGameAnalysis(req.params.id);
-      const moves = await storage.getGameMoves(req.params.id);
-      res.json({ analysis, moves });
+      const game = await storage.getGame(req.params.id);
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // Evaluations and best moves would help whoever is still playing the game
+      const denial = await getAnalysisDenial(req, game);
+      if (denial) {
+        return res.status(denial.status).json({ message: denial.message });
+      }
+
+      const analysis = await storage.getGameAnalysis(game.id);
+      const moves = await storage.getGameMoves(game.id);
+      res.json({ analysis: analysis ?? null, moves });
     } catch (error) {
       console.error("Error fetching analysis:", error);
       res.status(500).json({ message: "Failed to fetch analysis" });
@@ -345,33 +1025,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      // Verify ownership - guest or authenticated user
-      if (req.isGuest) {
-        if (game.guestId !== req.guestId || !game.isGuestGame) {
-          return res.status(403).json({ message: "Access denied" });
-        }
-      } else {
-        const userId = req.user.claims.sub;
-        if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
       if (game.status !== 'active') {
         return res.status(400).json({ message: "Game is not active" });
       }
 
-      // Determine the result based on who resigned
-      let result = '1/2-1/2'; // Default to draw, but this should not happen
-      if (req.isGuest || game.whitePlayerId === (req.user?.claims?.sub)) {
-        // Player resigned
-        result = game.playerColor === 'white' ? '0-1' : '1-0';
-      }
+      // The side that resigned loses
+      const result = playerColor === 'white' ? '0-1' : '1-0';
 
-      const updatedGame = await storage.updateGame(gameId, {
-        status: 'completed',
-        result,
-      });
+      const updatedGame = await completeGame(gameId, result, 'resignation');
 
       res.json({ 
         message: "Game resigned", 
@@ -393,28 +1060,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      // Verify ownership - guest or authenticated user
-      if (req.isGuest) {
-        if (game.guestId !== req.guestId || !game.isGuestGame) {
-          return res.status(403).json({ message: "Access denied" });
-        }
-      } else {
-        const userId = req.user.claims.sub;
-        if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
       if (game.status !== 'active') {
         return res.status(400).json({ message: "Game is not active" });
       }
 
-      // For now, against AI, automatically accept the draw offer
-      // In a real implementation, this might involve more complex logic
-      const updatedGame = await storage.updateGame(gameId, {
-        status: 'completed',
-        result: '1/2-1/2',
-      });
+      // A human opponent has to agree: offering back while their offer is open accepts it
+      if (!isAIGame(game) && game.drawOfferedBy !== getOpponentColor(playerColor)) {
+        const updatedGame = await storage.updateGame(gameId, { drawOfferedBy: playerColor });
+        broadcastGameState(updatedGame);
+        broadcastToGame(gameId, 'draw_offered', { gameId, by: playerColor });
+        return res.json({ message: "Draw offered", game: updatedGame, result: null });
+      }
+
+      // AnveshAI always accepts
+      const updatedGame = await completeGame(gameId, '1/2-1/2', 'draw_agreement', { drawOfferedBy: null });
 
       res.json({ 
         message: "Draw offer accepted", 
@@ -427,6 +1092,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/games/:id/decline-draw', optionalAuth, async (req: any, res) => {
+    try {
+      const gameId = req.params.id;
+      const game = await storage.getGame(gameId);
+
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
+      }
+
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (game.status !== 'active' || game.drawOfferedBy !== getOpponentColor(playerColor)) {
+        return res.status(400).json({ message: "There is no draw offer to decline" });
+      }
+
+      const updatedGame = await storage.updateGame(gameId, { drawOfferedBy: null });
+      broadcastGameState(updatedGame);
+      broadcastToGame(gameId, 'draw_declined', { gameId, by: playerColor });
+
+      res.json({ message: "Draw offer declined", game: updatedGame });
+    } catch (error) {
+      console.error("Error declining draw:", error);
+      res.status(500).json({ message: "Failed to decline draw" });
+    }
+  });
+
   // PGN export (allow for both guests and authenticated users)
   app.get('/api/games/:id/pgn', optionalAuth, async (req: any, res) => {
     try {
@@ -435,16 +1130,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Game not found" });
       }
 
-      // Verify ownership - guest or authenticated user
-      if (req.isGuest) {
-        if (game.guestId !== req.guestId || !game.isGuestGame) {
-          return res.status(403).json({ message: "Access denied" });
-        }
-      } else {
-        const userId = req.user.claims.sub;
-        if (game.whitePlayerId !== userId && game.blackPlayerId !== userId) {
-          return res.status(403).json({ message: "Access denied" });
-        }
+      // Verify the requester plays in this game - guest or authenticated user
+      const playerColor = getRequestColor(req, game);
+      if (!playerColor) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
       res.setHeader('Content-Type', 'application/x-chess-pgn');
@@ -456,41 +1145,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  const httpServer = createServer(app);
-
-  // WebSocket setup for real-time features
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-
   wss.on('connection', (ws: GameSocket, req) => {
     console.log('Client connected to WebSocket');
 
+    const send = (type: string, data: any) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type, data }));
+      }
+    };
+
+    const identified = authenticateUpgrade(req).then(identity => {
+      ws.userId = identity.userId ?? undefined;
+      ws.guestId = identity.guestId ?? undefined;
+      ws.isAdmin = identity.isAdmin;
+    });
+
     ws.on('message', async (message) => {
       try {
         const data = JSON.parse(message.toString());
+        await identified;
 
         switch (data.type) {
-          case 'join_game':
-            ws.gameId = data.gameId;
-            ws.userId = data.userId;
-            ws.isAdmin = data.isAdmin || false;
+          case 'join_game': {
+            const game = await storage.getGame(data.gameId);
+            if (!game) {
+              send('join_error', { gameId: data.gameId, message: "Game not found" });
+              break;
+            }
+
+            // Only the game's players follow it; admins watch through spectate_game
+            const color = ws.userId
+              ? getPlayerColor(game, ws.userId)
+              : ws.guestId ? getPlayerColor(game, null, ws.guestId) : null;
+            if (!color && !ws.isAdmin) {
+              send('join_error', { gameId: game.id, message: "Access denied" });
+              break;
+            }
+
+            ws.gameId = game.id;
+
+            // Start the client's clocks from the server's view of the game
+            send('clock', getClockState(game));
+            break;
+          }
+
+          case 'join_lobby':
+            ws.inLobby = true;
+            send('seeks', lobby.list());
+            break;
+
+          case 'leave_lobby':
+            ws.inLobby = false;
             break;
 
           case 'spectate_game':
-            if (ws.isAdmin) {
-              ws.gameId = data.gameId;
+            if (!ws.isAdmin) {
+              send('join_error', { gameId: data.gameId, message: "Only admins can spectate games" });
+              break;
             }
+            ws.gameId = data.gameId;
             break;
 
-          case 'game_update':
-            // Broadcast game updates to all connected clients watching this game
-            wss.clients.forEach((client: GameSocket) => {
-              if (client !== ws && client.gameId === ws.gameId && client.readyState === WebSocket.OPEN) {
-                client.send(JSON.stringify({
-                  type: 'game_state',
-                  data: data.gameState
-                }));
+          case 'start_analysis': {
+            if (!ws.gameId) break;
+            const game = await storage.getGame(ws.gameId);
+            if (!game) break;
+
+            // Engine lines during a running game are for admins only; anyone may review a finished game
+            if (!ws.isAdmin && game.status === 'active') {
+              send('analysis_error', { gameId: game.id, message: "Live analysis is only available to admins during a game" });
+              break;
+            }
+
+            // A reviewed earlier position stays put; otherwise the analysis follows the game
+            let fen = game.currentFen;
+            if (typeof data.fen === 'string' && data.fen !== game.currentFen) {
+              const moves = await storage.getGameMoves(game.id);
+              if (data.fen !== DEFAULT_POSITION && !moves.some(move => move.fen === data.fen)) {
+                send('analysis_error', { gameId: game.id, message: "That position is not from this game" });
+                break;
               }
-            });
+              fen = data.fen;
+            }
+
+            liveAnalysis.start(ws, game.id, fen, send, data.multiPv, fen === game.currentFen);
+            break;
+          }
+
+          case 'stop_analysis':
+            liveAnalysis.stop(ws);
             break;
         }
       } catch (error) {
@@ -499,6 +1242,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     ws.on('close', () => {
+      liveAnalysis.stop(ws, 'disconnected');
       console.log('Client disconnected from WebSocket');
     });
   });
@@ -0,0 +1,112 @@
+import type { EngineEvaluation } from './stockfish';
+import type { PlayerColor } from '@shared/players';
+
+export interface MoveAccuracy {
+  side: PlayerColor; // who made the move
+  accuracy: number; // 0-100
+}
+
+export interface SideAccuracy {
+  white: number | null; // null when the side made no moves
+  black: number | null;
+}
+
+// Evaluations beyond this many centipawns are as good as won
+const MAX_CENTIPAWNS = 1000;
+// Fitted to how often players win from a given evaluation (lichess's model)
+const WIN_SLOPE = 0.00368208;
+// Fitted so that losing no win% scores ~100 and losing a whole game scores ~0
+const ACCURACY_SCALE = 103.1668;
+const ACCURACY_DECAY = 0.04354;
+const ACCURACY_OFFSET = 3.1669;
+// Engine evaluations wobble a little even for the best move
+const UNCERTAINTY_BONUS = 1;
+// Bounds for how much a move counts towards its side's accuracy
+const MIN_WEIGHT = 0.5;
+const MAX_WEIGHT = 12;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Expected score in percent for a centipawn evaluation, from the same side's view
+export function centipawnsToWinPercent(centipawns: number): number {
+  const cp = clamp(centipawns, -MAX_CENTIPAWNS, MAX_CENTIPAWNS);
+  return 50 + 50 * (2 / (1 + Math.exp(-WIN_SLOPE * cp)) - 1);
+}
+
+/**
+ * Win% for the side to move of an engine evaluation. A forced mate counts as
+ * a won (or lost) position however far away it is; "mate 0" means the side
+ * to move is already mated.
+ */
+export function getWinPercent(evaluation: Pick<EngineEvaluation, 'score' | 'mate'>): number {
+  if (evaluation.mate !== undefined) {
+    return evaluation.mate > 0 ? 100 : 0;
+  }
+  return centipawnsToWinPercent(evaluation.score * 100);
+}
+
+// How well a move kept its side's chances, from the win% it gave away
+export function getMoveAccuracy(winBefore: number, winAfter: number): number {
+  if (winAfter >= winBefore) return 100;
+  const raw = ACCURACY_SCALE * Math.exp(-ACCURACY_DECAY * (winBefore - winAfter)) - ACCURACY_OFFSET;
+  return clamp(raw + UNCERTAINTY_BONUS, 0, 100);
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Per-move weights from how volatile the game was around each move, measured
+ * as the spread of white's win% over a sliding window. Moves in sharp
+ * positions count for more than shuffling in a dead draw.
+ */
+function getVolatilityWeights(whiteWinPercents: number[], moveCount: number): number[] {
+  const windowSize = clamp(Math.floor(moveCount / 10), 2, 8);
+  const weights: number[] = [];
+  for (let i = 0; i < moveCount; i++) {
+    // whiteWinPercents[i] is the position before move i, so each window ends just after the move
+    const end = Math.max(i + 2, windowSize);
+    const window = whiteWinPercents.slice(Math.max(0, end - windowSize), end);
+    weights.push(clamp(standardDeviation(window), MIN_WEIGHT, MAX_WEIGHT));
+  }
+  return weights;
+}
+
+function weightedMean(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  return values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight;
+}
+
+function harmonicMean(values: number[]): number {
+  // A single 0 would otherwise pull the mean to 0
+  return values.length / values.reduce((sum, value) => sum + 1 / Math.max(value, 1), 0);
+}
+
+/**
+ * Accuracy for each side: the average of the volatility-weighted mean and the
+ * harmonic mean of its move accuracies. The harmonic mean makes a blunder cost
+ * more than a run of good moves can win back.
+ *
+ * `whiteWinPercents` holds white's win% for the starting position and after
+ * every move, so it is one longer than `moves`.
+ */
+export function getSideAccuracy(moves: MoveAccuracy[], whiteWinPercents: number[]): SideAccuracy {
+  const weights = getVolatilityWeights(whiteWinPercents, moves.length);
+  const sides: Record<PlayerColor, { accuracies: number[]; weights: number[] }> = {
+    white: { accuracies: [], weights: [] },
+    black: { accuracies: [], weights: [] },
+  };
+
+  moves.forEach((move, i) => {
+    sides[move.side].accuracies.push(move.accuracy);
+    sides[move.side].weights.push(weights[i]);
+  });
+
+  const aggregate = ({ accuracies, weights }: { accuracies: number[]; weights: number[] }) =>
+    accuracies.length > 0 ? (weightedMean(accuracies, weights) + harmonicMean(accuracies)) / 2 : null;
+
+  return { white: aggregate(sides.white), black: aggregate(sides.black) };
+}
@@ -0,0 +1,168 @@
+import { storage, type MoveAnalysisUpdate } from '../storage';
+import { ChessGameService } from './chess';
+import { getPgnMoves, identifyOpening } from '@shared/openings';
+import type { AnalyzedMove } from '@shared/analysis';
+import type { AnalysisJob, Game } from '@shared/schema';
+
+// Called whenever a job changes, with the users following it; `move` is the ply that was just analysed, if any
+type JobListener = (job: AnalysisJob, subscribers: string[], move?: AnalyzedMove) => void;
+
+/**
+ * Game analyses run here in the background, one at a time so they don't crowd
+ * live games off the engines. Job rows record progress, so a client can pick
+ * a job up again after reloading, and jobs cut short by a restart run again.
+ */
+export class AnalysisJobService {
+  private queue: string[] = []; // ids of queued jobs, oldest first
+  private current: { jobId: string; controller: AbortController } | null = null;
+  private listeners = new Set<JobListener>();
+  private subscribers = new Map<string, Set<string>>(); // user ids following each unfinished job
+
+  async enqueue(game: Game, requestedBy: string, depth: number): Promise<AnalysisJob> {
+    const job = await storage.createAnalysisJob({
+      gameId: game.id,
+      requestedBy,
+      depth,
+      status: 'queued',
+      totalPlies: getPgnMoves(game.pgn).length,
+    });
+    this.queue.push(job.id);
+    this.subscribe(job.id, requestedBy);
+    this.changed(job);
+    this.startNext();
+    return job;
+  }
+
+  // Hear about a job's progress too, e.g. after asking for an analysis that was already running
+  subscribe(jobId: string, userId: string) {
+    if (this.current?.jobId !== jobId && !this.queue.includes(jobId)) return; // already finished
+    const subscribers = this.subscribers.get(jobId) ?? new Set<string>();
+    subscribers.add(userId);
+    this.subscribers.set(jobId, subscribers);
+  }
+
+  /**
+   * Stop a job. A queued job is cancelled at once; a running one stops its
+   * engine work and is marked cancelled when it winds down.
+   */
+  async cancel(job: AnalysisJob): Promise<AnalysisJob> {
+    if (this.current?.jobId === job.id) {
+      this.current.controller.abort();
+      return job;
+    }
+
+    this.queue = this.queue.filter(id => id !== job.id);
+    return this.finish(job.id, { status: 'cancelled' });
+  }
+
+  // Queue again the jobs a restart interrupted
+  async recover() {
+    const jobs = await storage.getUnfinishedAnalysisJobs();
+    for (const job of jobs) {
+      if (job.status === 'running') {
+        await storage.updateAnalysisJob(job.id, { status: 'queued', pliesDone: 0, startedAt: null });
+      }
+      this.queue.push(job.id);
+      this.subscribe(job.id, job.requestedBy);
+    }
+    if (jobs.length > 0) {
+      console.log(`Resuming ${jobs.length} interrupted analysis job(s)`);
+      this.startNext();
+    }
+  }
+
+  onChange(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Nobody waits on the queue, so a failure to even record how a job ended is only logged
+  private startNext() {
+    this.runNext().catch(error => console.error('Error running analysis jobs:', error));
+  }
+
+  private async runNext() {
+    if (this.current) return;
+    const jobId = this.queue.shift();
+    if (!jobId) return;
+
+    const controller = new AbortController();
+    this.current = { jobId, controller };
+    try {
+      await this.run(jobId, controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.finish(jobId, { status: 'cancelled' });
+      } else {
+        console.error(`Analysis job ${jobId} failed:`, error);
+        await this.finish(jobId, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      this.current = null;
+      this.subscribers.delete(jobId);
+      this.startNext();
+    }
+  }
+
+  private async run(jobId: string, signal: AbortSignal) {
+    let job = await storage.updateAnalysisJob(jobId, { status: 'running', startedAt: new Date(), pliesDone: 0 });
+    this.changed(job);
+
+    const game = await storage.getGame(job.gameId);
+    if (!game) throw new Error('Game not found');
+
+    const chessGame = new ChessGameService();
+    chessGame.loadPGN(game.pgn);
+
+    const result = await chessGame.analyzeGame({
+      depth: job.depth,
+      signal,
+      onMove: async (move, ply) => {
+        job = await storage.updateAnalysisJob(jobId, { pliesDone: ply });
+        this.changed(job, move);
+      },
+    });
+
+    // Moves are stored in the order they were played; only matching rows get the results
+    const rows = await storage.getGameMoves(game.id);
+    const moveUpdates: MoveAnalysisUpdate[] = [];
+    result.moves.forEach((move, index) => {
+      const row = rows[index];
+      if (row?.san !== move.san) return;
+      moveUpdates.push({
+        moveId: row.id,
+        evaluation: move.evaluation,
+        bestMove: move.bestMove,
+        classification: move.classification,
+        accuracy: move.accuracy,
+      });
+    });
+
+    await storage.saveAnalysisResults({
+      gameId: game.id,
+      whiteAccuracy: result.whiteAccuracy,
+      blackAccuracy: result.blackAccuracy,
+      blunders: result.blunders,
+      mistakes: result.mistakes,
+      inaccuracies: result.inaccuracies,
+      openingName: identifyOpening(getPgnMoves(game.pgn))?.name ?? null,
+      evaluationGraph: result.evaluationGraph,
+    }, moveUpdates);
+
+    await this.finish(jobId, { status: 'completed' });
+  }
+
+  private async finish(jobId: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob> {
+    const job = await storage.updateAnalysisJob(jobId, { ...updates, finishedAt: new Date() });
+    this.changed(job);
+    this.subscribers.delete(jobId);
+    return job;
+  }
+
+  private changed(job: AnalysisJob, move?: AnalyzedMove) {
+    const subscribers = Array.from(this.subscribers.get(job.id) ?? []);
+    this.listeners.forEach(listener => listener(job, subscribers, move));
+  }
+}
+
+export const analysisJobs = new AnalysisJobService();
@@ -1,6 +1,12 @@
-import { Chess } from 'chess.js';
-import { stockfishEngine, EngineEvaluation } from './stockfish';
+import { Chess, type Square } from 'chess.js';
+import { EngineEvaluation, EngineRequestOptions } from './stockfish';
+import { enginePool } from './enginePool';
+import { getStrengthProfile, pickMove } from './strength';
 import { learningService } from './learning';
+import { getMoveAccuracy, getSideAccuracy, getWinPercent, type MoveAccuracy } from './accuracy';
+import { classifyMove, isSacrifice } from './classification';
+import { isBookLine } from '@shared/openings';
+import { encodeEvaluation, type AnalyzedMove, type EvaluationPoint, type GameAnalysis } from '@shared/analysis';
 
 export interface GameMove {
   san: string;
@@ -10,6 +16,11 @@ export interface GameMove {
   timeSpent?: number;
 }
 
+export interface GameAnalysisOptions extends EngineRequestOptions {
+  depth?: number; // default 15
+  onMove?: (move: AnalyzedMove, ply: number, totalPlies: number) => void | Promise<void>; // after every analysed ply
+}
+
 export interface GameState {
   fen: string;
   pgn: string;
@@ -22,6 +33,40 @@ export interface GameState {
   moves: GameMove[];
 }
 
+// Bounds for thinking on the clock: a move always gets a minimal search, and a long
+// time control doesn't keep the move request open for minutes
+const MIN_THINKING_MS = 50;
+const MAX_THINKING_MS = 10000;
+
+const PROMOTION_PIECES = ['q', 'r', 'b', 'n'];
+
+// How long one position of a game analysis may take, queueing included. Searches get
+// roughly twice as slow every two plies deeper, so deep analyses get the time they need
+const BASE_ANALYSIS_TIMEOUT_MS = 30000;
+const BASE_ANALYSIS_DEPTH = 15;
+
+function getAnalysisTimeout(depth: number): number {
+  return BASE_ANALYSIS_TIMEOUT_MS * 2 ** (Math.max(0, depth - BASE_ANALYSIS_DEPTH) / 2);
+}
+
+interface CoordinateMove {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+// Moves in coordinate form, e.g. "e2e4" or "e7e8q"
+function parseCoordinateMove(move: string): CoordinateMove | null {
+  const match = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/.exec(move);
+  if (!match) return null;
+  return { from: match[1], to: match[2], promotion: match[3] };
+}
+
+// Move number of the side to move, from the last field of a FEN
+export function getFullmoveNumber(fen: string): number {
+  return parseInt(fen.split(' ')[5], 10) || 1;
+}
+
 export class ChessGameService {
   private chess: Chess;
 
@@ -29,6 +74,18 @@ export class ChessGameService {
     this.chess = new Chess(fen);
   }
 
+  /**
+   * Rebuild a stored game from its PGN so its history, comments and repetitions
+   * carry over, falling back to the bare position if the PGN doesn't lead there.
+   */
+  static fromGame(game: { pgn: string; currentFen: string }): ChessGameService {
+    const service = new ChessGameService();
+    if (game.pgn && service.loadPGN(game.pgn) && service.chess.fen() === game.currentFen) {
+      return service;
+    }
+    return new ChessGameService(game.currentFen);
+  }
+
   getGameState(): GameState {
     return {
       fen: this.chess.fen(),
@@ -47,9 +104,83 @@ export class ChessGameService {
     };
   }
 
-  makeMove(move: string): GameMove | null {
+  /**
+   * The result once the game is over on the board, or null while it is still going.
+   */
+  getResult(): string | null {
+    if (this.chess.isCheckmate()) {
+      // The side left to move is the one that got mated
+      return this.chess.turn() === 'w' ? '0-1' : '1-0';
+    }
+    return this.chess.isGameOver() ? '1/2-1/2' : null;
+  }
+
+  /**
+   * Why the game ended on the board, or null while it is still going.
+   */
+  getTermination(): string | null {
+    if (this.chess.isCheckmate()) return 'checkmate';
+    if (this.chess.isStalemate()) return 'stalemate';
+    if (this.chess.isInsufficientMaterial()) return 'insufficient_material';
+    if (this.chess.isThreefoldRepetition()) return 'threefold_repetition';
+    if (this.chess.isDrawByFiftyMoves()) return 'fifty_move_rule';
+    return null;
+  }
+
+  /**
+   * Explain why a move can't be played as given, or null if it can. A promotion must
+   * name its piece, since chess.js would otherwise pick one on the player's behalf.
+   */
+  getMoveError(move: string, promotion?: string): string | null {
+    if (promotion !== undefined && !PROMOTION_PIECES.includes(promotion)) {
+      return "Promotion piece must be one of q, r, b or n";
+    }
+
+    const coordinates = parseCoordinateMove(move);
+    if (coordinates) {
+      const candidates = this.chess.moves({ square: coordinates.from as Square, verbose: true })
+        .filter(candidate => candidate.to === coordinates.to);
+      if (candidates.length === 0) return "Invalid move";
+
+      const isPromotion = candidates.some(candidate => candidate.promotion);
+      if (promotion && coordinates.promotion && promotion !== coordinates.promotion) {
+        return "Move and promotion name different pieces";
+      }
+      const piece = promotion ?? coordinates.promotion;
+      if (isPromotion && !piece) {
+        return "Promotion piece required: choose q, r, b or n";
+      }
+      if (!isPromotion && piece) {
+        return "Only a pawn reaching the last rank can promote";
+      }
+      return null;
+    }
+
+    // SAN has to spell out the promotion itself, e.g. "e8=N"
+    if (promotion !== undefined) {
+      return "Send the promotion piece with a coordinate move such as e7e8";
+    }
     try {
-      const moveObj = this.chess.move(move);
+      const result = new Chess(this.chess.fen()).move(move);
+      if (result.promotion && !/[1-8]=?[QRBNqrbn][+#]?$/.test(move)) {
+        return "Promotion piece required: choose q, r, b or n";
+      }
+      return null;
+    } catch {
+      // chess.js rejects "e8" outright when only "e8=Q" and friends are legal
+      if (this.chess.moves().some(san => san.startsWith(move + '='))) {
+        return "Promotion piece required: choose q, r, b or n";
+      }
+      return "Invalid move";
+    }
+  }
+
+  makeMove(move: string, promotion?: string): GameMove | null {
+    try {
+      const coordinates = parseCoordinateMove(move);
+      const moveObj = coordinates
+        ? this.chess.move({ ...coordinates, promotion: promotion ?? coordinates.promotion })
+        : this.chess.move(move);
       if (!moveObj) return null;
 
       return {
@@ -62,7 +193,11 @@ export class ChessGameService {
     }
   }
 
-  async makeAIMove(difficulty: number = 1600): Promise<GameMove | null> {
+  /**
+   * `budgetMs` is the time AnveshAI may spend on its own clock; untimed games
+   * get a fixed amount of thinking time instead.
+   */
+  async makeAIMove(difficulty: number = 1600, budgetMs: number | null = null): Promise<GameMove | null> {
     try {
       const currentFen = this.chess.fen();
       let bestMove: string;
@@ -108,9 +243,16 @@ export class ChessGameService {
         }
       }
 
-      // Fallback to Stockfish engine
-      const thinkingTime = Math.max(500, Math.min(3000, difficulty));
-      bestMove = await stockfishEngine.getBestMove(currentFen, thinkingTime);
+      // Fallback to Stockfish engine, limited to the requested strength
+      const thinkingTime = budgetMs !== null
+        ? Math.max(MIN_THINKING_MS, Math.min(MAX_THINKING_MS, budgetMs))
+        : Math.max(500, Math.min(3000, difficulty));
+      const profile = getStrengthProfile(difficulty, thinkingTime);
+      const search = await enginePool.searchMoves(currentFen, profile.limits, {
+        priority: 'live',
+        timeoutMs: thinkingTime + 5000,
+      });
+      bestMove = pickMove(search, profile);
       
       const moveObj = this.chess.move(bestMove);
       if (!moveObj) return null;
@@ -138,9 +280,37 @@ export class ChessGameService {
     }
   }
 
+  /**
+   * Undo the last `count` half-moves and note them in a PGN comment on the position
+   * play resumes from. Returns the moves taken back, or null if there aren't enough.
+   */
+  takeBack(count: number): GameMove[] | null {
+    const history = this.chess.history({ verbose: true });
+    if (count < 1 || history.length < count) return null;
+
+    const undone = history.slice(history.length - count);
+    for (let i = 0; i < count; i++) {
+      this.chess.undo();
+    }
+
+    const notation = undone.map((move, index) => {
+      const number = getFullmoveNumber(move.before);
+      if (move.color === 'w') return `${number}. ${move.san}`;
+      return index === 0 ? `${number}... ${move.san}` : move.san;
+    }).join(' ');
+    const existing = this.chess.getComment();
+    this.chess.setComment(existing ? `${existing}; Takeback: ${notation}` : `Takeback: ${notation}`);
+
+    return undone.map(move => ({
+      san: move.san,
+      uci: move.from + move.to + (move.promotion || ''),
+      fen: move.after,
+    }));
+  }
+
   getLegalMoves(square?: string): string[] {
     if (square) {
-      return this.chess.moves({ square: square as any, verbose: true }).map((move: any) => move.to);
+      return this.chess.moves({ square: square as Square, verbose: true }).map(move => move.to);
     }
     return this.chess.moves();
   }
@@ -154,70 +324,96 @@ export class ChessGameService {
     }
   }
 
-  async analyzeGame(): Promise<any> {
+  async analyzeGame(options: GameAnalysisOptions = {}): Promise<GameAnalysis> {
+    const { depth = 15, onMove, ...engineOptions } = options;
     const history = this.chess.history({ verbose: true });
-    const analysisData = [];
+    const analysisData: AnalyzedMove[] = [];
     let blunders = 0;
     let mistakes = 0;
     let inaccuracies = 0;
-    let whiteAccuracy = 0;
-    let blackAccuracy = 0;
-    let evaluationGraph = [];
+    const evaluationGraph: EvaluationPoint[] = [];
+    const moveAccuracies: MoveAccuracy[] = [];
+    const whiteWinPercents: number[] = [];
 
     // Reset to start position for analysis
     const tempChess = new Chess();
-    
+
+    // Every position is searched once, with the runner-up to tell only moves apart: the
+    // evaluation after one move is the best-move evaluation before the next
+    const timeoutMs = engineOptions.timeoutMs ?? getAnalysisTimeout(depth);
+    const evaluate = (fen: string) =>
+      enginePool.evaluatePosition(fen, depth, { ...engineOptions, timeoutMs, multiPv: 2, priority: 'analysis' });
+    let bestEval = await evaluate(tempChess.fen());
+
     for (let i = 0; i < history.length; i++) {
       const move = history[i];
-      const fen = tempChess.fen();
-      
-      // Get best move evaluation
-      const bestEval = await stockfishEngine.evaluatePosition(fen);
-      
+
       // Make the actual move
       tempChess.move(move);
-      const actualEval = await stockfishEngine.evaluatePosition(tempChess.fen());
+      const actualEval = await evaluate(tempChess.fen());
+
+      // Engine scores are from the side to move, which the move just handed over
+      const side = move.color === 'w' ? 'white' : 'black';
+      const winBefore = getWinPercent(bestEval);
+      const winAfter = tempChess.isCheckmate() ? 100 : 100 - getWinPercent(actualEval);
+      const accuracy = getMoveAccuracy(winBefore, winAfter);
+      moveAccuracies.push({ side, accuracy });
+      if (i === 0) whiteWinPercents.push(side === 'white' ? winBefore : 100 - winBefore);
+      whiteWinPercents.push(side === 'white' ? winAfter : 100 - winAfter);
       
       // Classify the move
-      const classification = stockfishEngine.classifyMove(actualEval, bestEval);
+      const classification = classifyMove({
+        before: bestEval,
+        after: actualEval,
+        playedMove: move.from + move.to + (move.promotion || ''),
+        isCheckmate: tempChess.isCheckmate(),
+        isBook: isBookLine(history.slice(0, i + 1).map(played => played.san)),
+        isSacrifice: isSacrifice(tempChess, move),
+      });
       
       if (classification === 'blunder') blunders++;
       else if (classification === 'mistake') mistakes++;
       else if (classification === 'inaccuracy') inaccuracies++;
 
-      analysisData.push({
+      // Evaluations are kept from White's side; after White's move the engine speaks for Black
+      const whiteSign = move.color === 'w' ? -1 : 1;
+      const point: EvaluationPoint = {
+        move: i + 1,
+        evaluation: actualEval.score * whiteSign,
+        mate: tempChess.isCheckmate() ? 0 : actualEval.mate !== undefined ? actualEval.mate * whiteSign : undefined,
+        side: move.color,
+        san: move.san,
+        classification,
+        accuracy: Math.round(accuracy)
+      };
+      evaluationGraph.push(point);
+
+      const analyzedMove: AnalyzedMove = {
         moveNumber: Math.floor(i / 2) + 1,
-        side: move.color === 'w' ? 'white' : 'black',
+        side,
         san: move.san,
         uci: move.from + move.to + (move.promotion || ''),
         fen: tempChess.fen(),
-        evaluation: actualEval.score.toString(),
+        evaluation: encodeEvaluation(point),
         bestMove: bestEval.bestMove,
-        classification
-      });
+        classification,
+        accuracy: Math.round(accuracy)
+      };
+      analysisData.push(analyzedMove);
 
-      evaluationGraph.push({
-        move: i + 1,
-        evaluation: actualEval.score,
-        side: move.color
-      });
+      await onMove?.(analyzedMove, i + 1, history.length);
+      bestEval = actualEval;
     }
 
-    // Calculate accuracy (simplified)
-    const totalMoves = history.length;
-    const goodMoves = analysisData.filter(m => 
-      ['best', 'excellent', 'good'].includes(m.classification)
-    ).length;
-    
-    const accuracy = totalMoves > 0 ? Math.round((goodMoves / totalMoves) * 100) : 100;
-    
+    const sideAccuracy = getSideAccuracy(moveAccuracies, whiteWinPercents);
+
     return {
       moves: analysisData,
       blunders,
       mistakes,
       inaccuracies,
-      whiteAccuracy: accuracy,
-      blackAccuracy: accuracy,
+      whiteAccuracy: sideAccuracy.white !== null ? Math.round(sideAccuracy.white) : null,
+      blackAccuracy: sideAccuracy.black !== null ? Math.round(sideAccuracy.black) : null,
       evaluationGraph
     };
   }
@@ -0,0 +1,116 @@
+import type { Chess, Move } from 'chess.js';
+import type { EngineEvaluation } from './stockfish';
+import { getWinPercent } from './accuracy';
+import type { MoveClassification } from '@shared/analysis';
+
+export interface MoveClassificationInput {
+  before: EngineEvaluation; // the position before the move, so from the mover's side; two lines let us spot only moves
+  after: EngineEvaluation; // the position after the move, so from the opponent's side
+  playedMove: string; // UCI
+  isCheckmate: boolean; // the move mated
+  isBook: boolean; // the game is still in known opening theory
+  isSacrifice: boolean; // see isSacrifice
+}
+
+// Win% the mover may give away and still get each grade
+const EXCELLENT_LOSS = 2;
+const GOOD_LOSS = 5;
+const INACCURACY_LOSS = 10;
+const MISTAKE_LOSS = 20;
+// A move is 'great' when every alternative to it gives away at least this much
+const ONLY_MOVE_MARGIN = 15;
+// A sacrifice is 'brilliant' when it is about as good as the best move and leaves the mover no worse than level
+const BRILLIANT_MAX_LOSS = 2;
+const BRILLIANT_MIN_WIN = 50;
+// A 'miss' gives up a position at least this good but keeps the mover out of trouble
+const MISS_WINNING = 75;
+const MISS_MIN_WIN = 40;
+
+const PIECE_VALUES: Record<string, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+/**
+ * Whether a move offers material: a minor piece or more left where the
+ * opponent can take it, undefended or attacked by something cheaper, and
+ * worth more than whatever it captured. `chess` is the position after the move.
+ */
+export function isSacrifice(chess: Chess, move: Move): boolean {
+  const piece = move.promotion ?? move.piece;
+  const value = PIECE_VALUES[piece];
+  if (value < 3) return false;
+  if (move.captured && PIECE_VALUES[move.captured] >= value) return false;
+
+  const opponent = move.color === 'w' ? 'b' : 'w';
+  const attackers = chess.attackers(move.to, opponent);
+  if (attackers.length === 0) return false;
+
+  if (chess.attackers(move.to, move.color).length === 0) return true;
+
+  // A defended piece is only offered to attackers cheaper than it; the king can't take it at all
+  return attackers.some(square => {
+    const attacker = chess.get(square)?.type;
+    return attacker !== undefined && attacker !== 'k' && PIECE_VALUES[attacker] < value;
+  });
+}
+
+// Moves to a forced mate from the mover's side: positive when the mover mates, negative when they get mated
+function getMoverMate(evaluation: EngineEvaluation, fromOpponent: boolean): number | undefined {
+  if (evaluation.mate === undefined) return undefined;
+  return fromOpponent ? -evaluation.mate : evaluation.mate;
+}
+
+function byWinLoss(loss: number): MoveClassification {
+  if (loss <= EXCELLENT_LOSS) return 'excellent';
+  if (loss <= GOOD_LOSS) return 'good';
+  if (loss <= INACCURACY_LOSS) return 'inaccuracy';
+  if (loss <= MISTAKE_LOSS) return 'mistake';
+  return 'blunder';
+}
+
+/**
+ * Grade a move by the chances it gave away. Engine scores are from the side
+ * to move, so both evaluations are turned to the mover's side first; forced
+ * mates are compared by their length rather than as won positions.
+ */
+export function classifyMove(input: MoveClassificationInput): MoveClassification {
+  const { before, after, playedMove, isCheckmate, isBook } = input;
+  if (isBook) return 'book';
+  if (isCheckmate) return 'best';
+
+  const winBefore = getWinPercent(before);
+  const winAfter = 100 - getWinPercent(after);
+  const loss = Math.max(0, winBefore - winAfter);
+  const mateBefore = getMoverMate(before, false);
+  const mateAfter = getMoverMate(after, true);
+  const isBestMove = playedMove === before.bestMove;
+
+  if (mateBefore !== undefined && mateBefore > 0) {
+    // Still mating: on pace is best, a slower mate is fine
+    if (mateAfter !== undefined && mateAfter > 0) {
+      return mateAfter < mateBefore ? 'best' : 'good';
+    }
+    if (mateAfter !== undefined) return 'blunder'; // turned a mate for into a mate against
+    return winAfter >= MISS_WINNING ? 'miss' : byWinLoss(loss);
+  }
+
+  if (mateAfter !== undefined && mateAfter < 0) {
+    // Already getting mated: only speeding it up is a fault
+    if (mateBefore !== undefined && mateBefore < 0) {
+      return -mateAfter >= -mateBefore ? 'best' : 'inaccuracy';
+    }
+    return 'blunder';
+  }
+
+  if (input.isSacrifice && loss <= BRILLIANT_MAX_LOSS && winAfter >= BRILLIANT_MIN_WIN) return 'brilliant';
+
+  if (isBestMove) {
+    const secondLine = before.lines[1];
+    if (secondLine && winBefore - getWinPercent(secondLine) >= ONLY_MOVE_MARGIN) return 'great';
+    return 'best';
+  }
+
+  const classification = byWinLoss(loss);
+  if ((classification === 'mistake' || classification === 'blunder') && winBefore >= MISS_WINNING && winAfter >= MISS_MIN_WIN) {
+    return 'miss';
+  }
+  return classification;
+}
@@ -0,0 +1,230 @@
+import { Chess } from 'chess.js';
+import type { Game } from '@shared/schema';
+import { type TimeControl, type TimeControlStage, getMovesToGo, getStageIndex } from '@shared/timeControl';
+import { storage } from '../storage';
+
+export type Side = 'white' | 'black';
+
+// Snapshot of a game's clocks; clients tick the side to move down from `serverTime`
+export interface ClockState {
+  gameId: string;
+  whiteTimeLeft: number; // seconds
+  blackTimeLeft: number; // seconds
+  turn: Side;
+  running: boolean;
+  delay: number; // seconds of simple delay left before the running clock starts to drop
+  serverTime: number; // ms since epoch when the snapshot was taken
+}
+
+export interface ClockCharge {
+  updates: Partial<Game>; // time left for the mover and the new lastMoveAt
+  timeSpent: number; // ms the mover used on this move
+  flagged: boolean; // the mover ran out of time before moving
+}
+
+export interface TimeoutResult {
+  result: string;
+  termination: string;
+  updates: Partial<Game>; // the flagged clock, pinned at zero
+}
+
+// How often active games are checked for players who ran out of time without moving
+const SWEEP_INTERVAL_MS = 5000;
+// Assumed length of the rest of the game when the time control doesn't say
+const DEFAULT_MOVES_TO_GO = 30;
+
+export function sideToMove(fen: string): Side {
+  return fen.split(' ')[1] === 'b' ? 'black' : 'white';
+}
+
+/**
+ * The game's time control; games created before time controls were configurable
+ * only have a plain timeControl in seconds.
+ */
+export function getTimeControl(game: Game): TimeControl | null {
+  if (game.timeControlSpec) return game.timeControlSpec;
+  if (!game.timeControl || game.timeControl <= 0) return null;
+  return { stages: [{ time: game.timeControl, increment: 0, delay: 0 }], delayMode: 'simple' };
+}
+
+export function isTimed(game: Game): boolean {
+  return getTimeControl(game) !== null;
+}
+
+/**
+ * Clocks start with White's first move, so a game nobody has touched yet
+ * can't be lost on time.
+ */
+export function isClockRunning(game: Game): boolean {
+  if (game.status !== 'active' || !isTimed(game) || !game.lastMoveAt) return false;
+  const [, turn, , , , fullmove] = game.currentFen.split(' ');
+  return turn === 'b' || parseInt(fullmove, 10) > 1;
+}
+
+// Both sides have made fullmove - 1 moves when it is their turn
+function movesMadeBySideToMove(fen: string): number {
+  return Math.max(0, parseInt(fen.split(' ')[5], 10) - 1 || 0);
+}
+
+function timeLeft(game: Game, side: Side): number {
+  const stored = side === 'white' ? game.whiteTimeLeft : game.blackTimeLeft;
+  return stored ?? getTimeControl(game)?.stages[0].time ?? 0;
+}
+
+function elapsedSeconds(game: Game, now: Date): number {
+  if (!isClockRunning(game)) return 0;
+  return Math.max(0, (now.getTime() - game.lastMoveAt!.getTime()) / 1000);
+}
+
+function currentStage(game: Game, control: TimeControl): TimeControlStage {
+  return control.stages[getStageIndex(control, movesMadeBySideToMove(game.currentFen))];
+}
+
+// Time actually taken off the clock of the side to move so far
+function chargedSeconds(game: Game, elapsed: number): number {
+  const control = getTimeControl(game);
+  if (!control) return 0;
+  return control.delayMode === 'simple' ? Math.max(0, elapsed - currentStage(game, control).delay) : elapsed;
+}
+
+function remainingDelay(game: Game, elapsed: number): number {
+  const control = getTimeControl(game);
+  if (!control || control.delayMode !== 'simple' || !isClockRunning(game)) return 0;
+  return Math.max(0, currentStage(game, control).delay - elapsed);
+}
+
+export function getClockState(game: Game, now: Date = new Date()): ClockState {
+  const turn = sideToMove(game.currentFen);
+  const elapsed = elapsedSeconds(game, now);
+  const charged = chargedSeconds(game, elapsed);
+  return {
+    gameId: game.id,
+    whiteTimeLeft: Math.max(0, timeLeft(game, 'white') - (turn === 'white' ? charged : 0)),
+    blackTimeLeft: Math.max(0, timeLeft(game, 'black') - (turn === 'black' ? charged : 0)),
+    turn,
+    running: isClockRunning(game),
+    delay: remainingDelay(game, elapsed),
+    serverTime: now.getTime(),
+  };
+}
+
+/**
+ * Charge the side to move for the move it just made, then credit its Bronstein
+ * delay, Fischer increment and, when it completes a stage, the next stage's time.
+ */
+export function chargeMove(game: Game, now: Date = new Date()): ClockCharge {
+  const control = getTimeControl(game);
+  const side = sideToMove(game.currentFen);
+  const elapsed = elapsedSeconds(game, now);
+  const updates: Partial<Game> = { lastMoveAt: now };
+  const timeSpent = Math.round(elapsed * 1000);
+
+  if (!control) {
+    return { updates, timeSpent, flagged: false };
+  }
+
+  const movesMade = movesMadeBySideToMove(game.currentFen);
+  const stageIndex = getStageIndex(control, movesMade);
+  const stage = control.stages[stageIndex];
+  let remaining = timeLeft(game, side) - chargedSeconds(game, elapsed);
+  const flagged = remaining <= 0;
+
+  if (!flagged) {
+    if (control.delayMode === 'bronstein') {
+      remaining += Math.min(elapsed, stage.delay);
+    }
+    remaining += stage.increment;
+
+    const nextStageIndex = getStageIndex(control, movesMade + 1);
+    if (nextStageIndex !== stageIndex) {
+      remaining += control.stages[nextStageIndex].time;
+    }
+  }
+
+  if (side === 'white') {
+    updates.whiteTimeLeft = Math.max(0, remaining);
+  } else {
+    updates.blackTimeLeft = Math.max(0, remaining);
+  }
+
+  return { updates, timeSpent, flagged };
+}
+
+export function hasFlagged(game: Game, now: Date = new Date()): boolean {
+  if (!isClockRunning(game)) return false;
+  const side = sideToMove(game.currentFen);
+  return timeLeft(game, side) - chargedSeconds(game, elapsedSeconds(game, now)) <= 0;
+}
+
+/**
+ * How long the side to move should think, in ms: an even share of its clock over
+ * the moves left in the stage, plus most of what it gets back after moving.
+ * Null for untimed games.
+ */
+export function getMoveBudget(game: Game, now: Date = new Date()): number | null {
+  const control = getTimeControl(game);
+  if (!control) return null;
+
+  const side = sideToMove(game.currentFen);
+  const state = getClockState(game, now);
+  const left = side === 'white' ? state.whiteTimeLeft : state.blackTimeLeft;
+  const movesMade = movesMadeBySideToMove(game.currentFen);
+  const stage = currentStage(game, control);
+  const movesToGo = getMovesToGo(control, movesMade) ?? DEFAULT_MOVES_TO_GO;
+
+  const budget = left / movesToGo + (stage.increment + stage.delay) * 0.8;
+  // Never gamble more than half the remaining time on one move
+  return Math.round(Math.max(0.05, Math.min(budget, left / 2)) * 1000);
+}
+
+// Only a lone king, or a king with a single minor piece, can never deliver mate
+function hasMatingMaterial(fen: string, side: Side): boolean {
+  const color = side === 'white' ? 'w' : 'b';
+  const pieces = new Chess(fen).board().flat()
+    .filter(square => square && square.color === color && square.type !== 'k')
+    .map(square => square!.type);
+  return !(pieces.length === 0 || (pieces.length === 1 && (pieces[0] === 'n' || pieces[0] === 'b')));
+}
+
+/**
+ * The side to move loses on time, unless the opponent couldn't possibly mate.
+ */
+export function getTimeoutResult(game: Game): TimeoutResult {
+  const flagged = sideToMove(game.currentFen);
+  const opponent: Side = flagged === 'white' ? 'black' : 'white';
+  const updates: Partial<Game> = flagged === 'white' ? { whiteTimeLeft: 0 } : { blackTimeLeft: 0 };
+
+  if (!hasMatingMaterial(game.currentFen, opponent)) {
+    return { result: '1/2-1/2', termination: 'timeout_vs_insufficient_material', updates };
+  }
+  return { result: flagged === 'white' ? '0-1' : '1-0', termination: 'timeout', updates };
+}
+
+/**
+ * Periodically flag players who ran out of time and simply stopped moving;
+ * moves made in time are charged by the move route itself.
+ */
+export function startClockSweeper(onTimeout: (game: Game) => Promise<void>): NodeJS.Timeout {
+  let sweeping = false;
+
+  const timer = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const now = new Date();
+      const activeGames = await storage.getActiveGames();
+      for (const game of activeGames) {
+        if (hasFlagged(game, now)) {
+          await onTimeout(game);
+        }
+      }
+    } catch (error) {
+      console.error('Clock sweep error:', error);
+    } finally {
+      sweeping = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  timer.unref();
+  return timer;
+}
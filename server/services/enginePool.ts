@@ -0,0 +1,317 @@
+import {
+  StockfishEngine,
+  EngineEvaluation,
+  EngineLine,
+  EngineMoveSearch,
+  EngineRequestOptions,
+  EvaluationOptions,
+  SearchLimits,
+} from './stockfish';
+import { EngineBackend } from './engineProcess';
+import { evaluationCache, type EvaluationCacheStats } from './evaluationCache';
+
+// 'live' requests (AI replies in running games) are always served before 'analysis' work
+export type EnginePriority = 'live' | 'analysis';
+
+export interface EnginePoolRequestOptions extends EngineRequestOptions {
+  priority?: EnginePriority;
+}
+
+export interface EnginePoolStats {
+  size: number;
+  busy: number;
+  idle: number;
+  queued: number;
+  queuedByPriority: Record<EnginePriority, number>;
+  restarts: number;
+  engines: { id: number; busy: boolean; ready: boolean; backend: EngineBackend | null }[];
+  cache: EvaluationCacheStats;
+}
+
+// A stream's lease comes with a controller that takes its engine back when other work needs one
+interface LeaseOptions extends EnginePoolRequestOptions {
+  yieldTo?: AbortController;
+}
+
+interface PooledEngine {
+  id: number;
+  engine: StockfishEngine;
+  busy: boolean;
+  priority: EnginePriority | null;
+  yieldTo?: AbortController;
+}
+
+interface LeaseRequest {
+  priority: EnginePriority;
+  yieldTo?: AbortController;
+  settled: boolean;
+  timer?: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (slot: PooledEngine) => void;
+  reject: (error: Error) => void;
+}
+
+// Delay before replacing a crashed process, so a broken binary can't spin the CPU
+const RESTART_DELAY_MS = 1000;
+
+export class EnginePool {
+  private slots: PooledEngine[] = [];
+  private waiting: LeaseRequest[] = [];
+  private nextEngineId = 1;
+  private restarts = 0;
+  private destroyed = false;
+
+  constructor(private size: number) {
+    for (let i = 0; i < size; i++) {
+      this.slots.push(this.createSlot());
+    }
+  }
+
+  private createSlot(): PooledEngine {
+    const id = this.nextEngineId++;
+    const engine = new StockfishEngine({
+      onExit: () => this.replaceCrashedSlot(id),
+    });
+    return { id, engine, busy: false, priority: null };
+  }
+
+  private replaceCrashedSlot(id: number) {
+    setTimeout(() => {
+      const index = this.slots.findIndex(slot => slot.id === id);
+      if (index === -1 || this.destroyed) return;
+
+      console.log(`Restarting crashed Stockfish engine #${id}`);
+      this.restarts++;
+      this.slots[index] = this.createSlot();
+      this.dispatch();
+    }, RESTART_DELAY_MS);
+  }
+
+  /**
+   * Analysis may only occupy all engines but one, so a live game can always get a reply
+   * without waiting behind a long post-game analysis.
+   */
+  private canLease(priority: EnginePriority): boolean {
+    if (priority === 'live' || this.size === 1) return true;
+    const analysisBusy = this.slots.filter(slot => slot.busy && slot.priority === 'analysis').length;
+    return analysisBusy < this.size - 1;
+  }
+
+  private dispatch() {
+    this.serveWaiting();
+    this.yieldStreams();
+  }
+
+  private serveWaiting() {
+    for (const priority of ['live', 'analysis'] as EnginePriority[]) {
+      for (const request of this.waiting.filter(r => r.priority === priority)) {
+        const slot = this.slots.find(s => !s.busy);
+        if (!slot) return;
+        if (!this.canLease(priority)) break;
+
+        this.waiting = this.waiting.filter(r => r !== request);
+        this.settleLease(request);
+        slot.busy = true;
+        slot.priority = priority;
+        slot.yieldTo = request.yieldTo;
+        request.resolve(slot);
+      }
+    }
+  }
+
+  /**
+   * Streams hold an engine for as long as someone watches, so they hand it over to any
+   * other request left waiting and queue again behind it. Streams never take engines
+   * from each other.
+   */
+  private yieldStreams() {
+    const yielding = this.slots.filter(slot => slot.busy && slot.yieldTo?.signal.aborted).length;
+    let blocked = this.waiting.filter(request => !request.yieldTo).length - yielding;
+    for (const slot of this.slots) {
+      if (blocked <= 0) return;
+      if (slot.busy && slot.yieldTo && !slot.yieldTo.signal.aborted) {
+        slot.yieldTo.abort();
+        blocked--;
+      }
+    }
+  }
+
+  private acquire(options: LeaseOptions): Promise<PooledEngine> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Engine request cancelled'));
+        return;
+      }
+
+      const request: LeaseRequest = {
+        priority: options.priority || 'live',
+        yieldTo: options.yieldTo,
+        settled: false,
+        signal: options.signal,
+        resolve,
+        reject,
+      };
+
+      const cancel = (error: Error) => {
+        if (request.settled) return;
+        this.settleLease(request);
+        this.waiting = this.waiting.filter(r => r !== request);
+        reject(error);
+      };
+
+      if (options.timeoutMs !== undefined && Number.isFinite(options.timeoutMs)) {
+        request.timer = setTimeout(() => {
+          cancel(new Error(`Timed out after ${options.timeoutMs}ms waiting for a free engine`));
+        }, options.timeoutMs);
+      }
+
+      if (options.signal) {
+        request.onAbort = () => cancel(new Error('Engine request cancelled'));
+        options.signal.addEventListener('abort', request.onAbort, { once: true });
+      }
+
+      this.waiting.push(request);
+      this.dispatch();
+    });
+  }
+
+  private settleLease(request: LeaseRequest) {
+    request.settled = true;
+    if (request.timer) clearTimeout(request.timer);
+    if (request.signal && request.onAbort) {
+      request.signal.removeEventListener('abort', request.onAbort);
+    }
+  }
+
+  private release(slot: PooledEngine) {
+    slot.busy = false;
+    slot.priority = null;
+    slot.yieldTo = undefined;
+    this.dispatch();
+  }
+
+  /**
+   * Lease an idle engine for the duration of `fn`. The request timeout covers
+   * both the wait for an engine and the work done on it.
+   */
+  async withEngine<T>(
+    fn: (engine: StockfishEngine, options: EngineRequestOptions) => Promise<T>,
+    options: LeaseOptions = {}
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const slot = await this.acquire(options);
+
+    try {
+      const engineOptions: EngineRequestOptions = { signal: options.signal };
+      if (options.timeoutMs !== undefined) {
+        engineOptions.timeoutMs = Math.max(1, options.timeoutMs - (Date.now() - startedAt));
+      }
+      return await fn(slot.engine, engineOptions);
+    } finally {
+      this.release(slot);
+    }
+  }
+
+  getBestMove(fen: string, timeMs: number = 1000, options: EnginePoolRequestOptions = {}): Promise<string> {
+    return this.withEngine(
+      (engine, engineOptions) => engine.getBestMove(fen, timeMs, engineOptions),
+      { priority: 'live', ...options }
+    );
+  }
+
+  searchMoves(fen: string, limits: SearchLimits, options: EnginePoolRequestOptions = {}): Promise<EngineMoveSearch> {
+    return this.withEngine(
+      (engine, engineOptions) => engine.searchMoves(fen, limits, engineOptions),
+      { priority: 'live', ...options }
+    );
+  }
+
+  /**
+   * Stream an infinite analysis until the signal is aborted, at analysis priority.
+   * Whenever other work waits for an engine the stream gives its own up and queues
+   * again, starting the search over once it gets one back. The timeout covers the
+   * whole stream.
+   */
+  async analyze(
+    fen: string,
+    onUpdate: (lines: EngineLine[]) => void,
+    options: EnginePoolRequestOptions & EvaluationOptions = {}
+  ): Promise<void> {
+    const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : undefined;
+    while (!options.signal?.aborted) {
+      const yieldTo = new AbortController();
+      const signal = options.signal ? AbortSignal.any([options.signal, yieldTo.signal]) : yieldTo.signal;
+      await this.withEngine(
+        (engine, engineOptions) => engine.analyze(fen, onUpdate, { ...engineOptions, multiPv: options.multiPv }),
+        {
+          ...options,
+          signal,
+          priority: 'analysis',
+          timeoutMs: deadline !== undefined ? Math.max(1, deadline - Date.now()) : undefined,
+          yieldTo,
+        }
+      );
+      if (!yieldTo.signal.aborted) return;
+    }
+  }
+
+  // Positions searched before to the same depth are answered from the evaluation cache
+  async evaluatePosition(
+    fen: string,
+    depth: number = 15,
+    options: EnginePoolRequestOptions & EvaluationOptions = {}
+  ): Promise<EngineEvaluation> {
+    const multiPv = options.multiPv ?? 1;
+    const cached = await evaluationCache.get(fen, depth, multiPv);
+    if (cached) return cached;
+
+    const evaluation = await this.withEngine(
+      (engine, engineOptions) => engine.evaluatePosition(fen, depth, { ...engineOptions, multiPv: options.multiPv }),
+      options
+    );
+    await evaluationCache.set(fen, depth, multiPv, evaluation);
+    return evaluation;
+  }
+
+  getStats(): EnginePoolStats {
+    const busy = this.slots.filter(slot => slot.busy).length;
+    return {
+      size: this.size,
+      busy,
+      idle: this.slots.length - busy,
+      queued: this.waiting.length,
+      queuedByPriority: {
+        live: this.waiting.filter(r => r.priority === 'live').length,
+        analysis: this.waiting.filter(r => r.priority === 'analysis').length,
+      },
+      restarts: this.restarts,
+      engines: this.slots.map(slot => ({
+        id: slot.id,
+        busy: slot.busy,
+        ready: slot.engine.ready,
+        backend: slot.engine.backend,
+      })),
+      cache: evaluationCache.getStats(),
+    };
+  }
+
+  destroy() {
+    this.destroyed = true;
+    for (const request of this.waiting) {
+      this.settleLease(request);
+      request.reject(new Error('Engine pool destroyed'));
+    }
+    this.waiting = [];
+    for (const slot of this.slots) {
+      slot.engine.destroy();
+    }
+  }
+}
+
+function getPoolSize(): number {
+  const size = parseInt(process.env.STOCKFISH_POOL_SIZE || '', 10);
+  return Number.isFinite(size) && size > 0 ? size : 2;
+}
+
+export const enginePool = new EnginePool(getPoolSize());
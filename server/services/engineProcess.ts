@@ -0,0 +1,117 @@
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import { createRequire } from 'module';
+import fs from 'fs';
+import path from 'path';
+
+export type EngineBackend = 'native' | 'wasm';
+
+/**
+ * A running UCI engine. Emits 'output' (raw stdout text), 'stderr', 'error'
+ * and 'exit' (code, signal), whichever backend it runs on.
+ */
+export interface EngineProcess extends EventEmitter {
+  readonly backend: EngineBackend;
+  write(command: string): void;
+  kill(): void;
+}
+
+export class NativeEngineProcess extends EventEmitter implements EngineProcess {
+  readonly backend = 'native' as const;
+  private child: ChildProcess;
+
+  constructor(enginePath: string) {
+    super();
+    this.child = spawn(enginePath, [], {
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    this.child.stdout?.on('data', (data) => this.emit('output', data.toString()));
+    this.child.stderr?.on('data', (data) => this.emit('stderr', data.toString()));
+    // Writes to a process that failed to start error out; the 'error' event below reports the cause
+    this.child.stdin?.on('error', () => {});
+    this.child.on('error', (error) => this.emit('error', error));
+    this.child.on('exit', (code, signal) => this.emit('exit', code, signal));
+  }
+
+  write(command: string) {
+    this.child.stdin?.write(command + '\n');
+  }
+
+  kill() {
+    this.child.removeAllListeners();
+    this.child.kill();
+  }
+}
+
+// Runs inside the worker thread. The stockfish.js build only exports its factory when
+// it believes it is on the main thread, so it is evaluated with a patched worker_threads.
+const WASM_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const fs = require('fs');
+const path = require('path');
+
+const enginePath = workerData.enginePath;
+const engineModule = { exports: {} };
+const engineRequire = (id) => id === 'worker_threads'
+  ? { ...require('worker_threads'), isMainThread: true }
+  : require(id);
+new Function('require', 'module', 'exports', '__filename', '__dirname', fs.readFileSync(enginePath, 'utf8'))(
+  engineRequire, engineModule, engineModule.exports, enginePath, path.dirname(enginePath)
+);
+
+const pending = [];
+let engine = null;
+const send = (command) => engine.ccall('command', null, ['string'], [command], { async: /^go\\b/.test(command) });
+parentPort.on('message', (command) => engine ? send(command) : pending.push(command));
+
+const instance = {
+  locateFile: (file) => file.indexOf('.wasm') > -1 ? enginePath.replace(/\\.js$/, '.wasm') : enginePath,
+  listener: (line) => parentPort.postMessage(String(line)),
+};
+engineModule.exports()(instance).then(function ready() {
+  if (instance._isReady && !instance._isReady()) return setTimeout(ready, 10);
+  engine = instance;
+  pending.splice(0).forEach(send);
+});
+`;
+
+export class WasmEngineProcess extends EventEmitter implements EngineProcess {
+  readonly backend = 'wasm' as const;
+  private worker: Worker;
+
+  constructor(enginePath: string) {
+    super();
+    this.worker = new Worker(WASM_WORKER_SOURCE, { eval: true, workerData: { enginePath } });
+
+    this.worker.on('message', (line) => this.emit('output', String(line) + '\n'));
+    this.worker.on('error', (error) => this.emit('error', error));
+    this.worker.on('exit', (code) => this.emit('exit', code, null));
+  }
+
+  write(command: string) {
+    this.worker.postMessage(command);
+  }
+
+  kill() {
+    this.worker.removeAllListeners();
+    this.worker.terminate();
+  }
+}
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Locate the single-threaded "lite" build shipped with the stockfish npm package;
+ * it needs neither SharedArrayBuffer threads nor the large split network files.
+ */
+export function resolveWasmEnginePath(): string | null {
+  try {
+    const sourceDir = path.join(path.dirname(require.resolve('stockfish/package.json')), 'src');
+    const file = fs.readdirSync(sourceDir).find(name => /-lite-single-[0-9a-f]+\.js$/.test(name));
+    return file ? path.join(sourceDir, file) : null;
+  } catch {
+    return null;
+  }
+}
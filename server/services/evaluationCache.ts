@@ -0,0 +1,95 @@
+import { storage } from '../storage';
+import type { EngineEvaluation } from './stockfish';
+
+export interface EvaluationCacheStats {
+  size: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+}
+
+// From this many halfmoves without a capture or pawn move, the fifty-move rule starts to change evaluations
+const FIFTY_MOVE_HORIZON = 80;
+
+/**
+ * The parts of a FEN that decide the engine's evaluation. The fullmove number
+ * doesn't, and the halfmove clock only does close to a fifty-move draw, so
+ * transpositions reached at different points of a game share an entry.
+ */
+export function normalizeFen(fen: string): string {
+  const fields = fen.trim().split(/\s+/);
+  const halfmoves = parseInt(fields[4] ?? '0', 10);
+  return fields.slice(0, halfmoves >= FIFTY_MOVE_HORIZON ? 5 : 4).join(' ');
+}
+
+/**
+ * Evaluations of positions searched before, keyed by normalised FEN, depth
+ * and number of lines. The most recently used ones are kept in memory; with
+ * a database every evaluation is also stored, so they outlive restarts and
+ * are shared by every game.
+ */
+export class EvaluationCache {
+  private entries = new Map<string, EngineEvaluation>(); // least recently used first
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private maxSize: number) {}
+
+  async get(fen: string, depth: number, multiPv: number): Promise<EngineEvaluation | undefined> {
+    const normalized = normalizeFen(fen);
+    const key = `${normalized}|${depth}|${multiPv}`;
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.remember(key, cached);
+      this.hits++;
+      return cached;
+    }
+
+    try {
+      const stored = await storage.getPositionEvaluation(normalized, depth, multiPv);
+      if (stored) {
+        const evaluation = stored.evaluation as EngineEvaluation;
+        this.remember(key, evaluation);
+        this.hits++;
+        return evaluation;
+      }
+    } catch (error) {
+      console.error('Error reading cached evaluation:', error);
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async set(fen: string, depth: number, multiPv: number, evaluation: EngineEvaluation) {
+    const normalized = normalizeFen(fen);
+    this.remember(`${normalized}|${depth}|${multiPv}`, evaluation);
+
+    try {
+      await storage.savePositionEvaluation({ fen: normalized, depth, multiPv, evaluation });
+    } catch (error) {
+      console.error('Error storing cached evaluation:', error);
+    }
+  }
+
+  getStats(): EvaluationCacheStats {
+    return { size: this.entries.size, maxSize: this.maxSize, hits: this.hits, misses: this.misses };
+  }
+
+  // Maps keep insertion order, so re-inserting moves an entry to the most recently used end
+  private remember(key: string, evaluation: EngineEvaluation) {
+    this.entries.delete(key);
+    this.entries.set(key, evaluation);
+    if (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+}
+
+function getCacheSize(): number {
+  const size = parseInt(process.env.EVALUATION_CACHE_SIZE || '', 10);
+  return Number.isFinite(size) && size > 0 ? size : 20000;
+}
+
+export const evaluationCache = new EvaluationCache(getCacheSize());
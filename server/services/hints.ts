@@ -0,0 +1,78 @@
+import { Chess, type Square } from 'chess.js';
+import { EngineEvaluation } from './stockfish';
+import { enginePool } from './enginePool';
+import { toSan } from './liveAnalysis';
+
+// 1: the piece to move, 2: where it goes, 3: the whole move with the line behind it
+export type HintLevel = 1 | 2 | 3;
+
+export interface Hint {
+  level: HintLevel;
+  fen: string;
+  from: string; // square of the piece to move
+  piece: string; // 'p', 'n', 'b', 'r', 'q' or 'k'
+  to?: string; // from level 2
+  move?: string; // SAN, level 3 only
+  pv?: string[]; // SAN, level 3 only
+  score?: number; // pawns for the player, level 3 only
+  mate?: number; // for the player, level 3 only
+}
+
+export interface HintResult {
+  hint: Hint;
+  newPosition: boolean; // the first hint asked for in this position
+}
+
+const HINT_DEPTH = 16;
+const HINT_PV_LENGTH = 5;
+const HINT_TIMEOUT_MS = 15000;
+
+/**
+ * Engine hints for the player to move. The evaluation of each game's current
+ * position is kept, so revealing more of a hint doesn't search again and
+ * only the first hint per position counts as a new one.
+ */
+export class HintService {
+  private positions = new Map<string, { fen: string; evaluation: EngineEvaluation }>();
+
+  async getHint(gameId: string, fen: string, level: HintLevel): Promise<HintResult> {
+    let cached = this.positions.get(gameId);
+    const newPosition = cached?.fen !== fen;
+    if (!cached || newPosition) {
+      const evaluation = await enginePool.evaluatePosition(fen, HINT_DEPTH, {
+        priority: 'live',
+        timeoutMs: HINT_TIMEOUT_MS,
+      });
+      cached = { fen, evaluation };
+      this.positions.set(gameId, cached);
+    }
+
+    const { evaluation } = cached;
+    const bestMove = evaluation.bestMove;
+    const from = bestMove.slice(0, 2);
+    const piece = new Chess(fen).get(from as Square);
+    if (!piece) {
+      throw new Error(`Engine suggested ${bestMove}, which has no piece to move`);
+    }
+
+    const hint: Hint = { level, fen, from, piece: piece.type };
+    if (level >= 2) {
+      hint.to = bestMove.slice(2, 4);
+    }
+    if (level >= 3) {
+      const pv = toSan(fen, evaluation.pv.length > 0 ? evaluation.pv : [bestMove]);
+      hint.move = pv[0];
+      hint.pv = pv.slice(0, HINT_PV_LENGTH);
+      hint.score = evaluation.score;
+      hint.mate = evaluation.mate;
+    }
+
+    return { hint, newPosition };
+  }
+
+  forget(gameId: string) {
+    this.positions.delete(gameId);
+  }
+}
+
+export const hintService = new HintService();
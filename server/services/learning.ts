@@ -3,7 +3,6 @@ import { db } from '../db';
 import { games, moves } from '@shared/schema';
 import { eq, and, sql } from 'drizzle-orm';
 import { Chess } from 'chess.js';
-import { stockfishEngine } from './stockfish';
 
 interface OpeningMove {
   fen: string;
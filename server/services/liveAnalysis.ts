@@ -0,0 +1,164 @@
+import { Chess } from 'chess.js';
+import { EngineLine } from './stockfish';
+import { enginePool } from './enginePool';
+
+export interface LiveAnalysisLine {
+  rank: number;
+  score: number; // pawns, from White's point of view
+  mate?: number; // from White's point of view
+  pv: string[]; // UCI
+  san: string[];
+  depth: number;
+  nodes: number;
+  nps: number;
+}
+
+export interface LiveAnalysisUpdate {
+  gameId: string;
+  fen: string;
+  depth: number;
+  lines: LiveAnalysisLine[];
+}
+
+type SendFn = (type: string, data: any) => void;
+
+interface LiveAnalysisSession {
+  gameId: string;
+  fen: string;
+  multiPv: number;
+  follow: boolean; // moves on with the game, rather than staying on a reviewed position
+  send: SendFn;
+  controller: AbortController;
+}
+
+// Engine info lines arrive far faster than anyone can read them
+const UPDATE_INTERVAL_MS = 250;
+// A forgotten session must not hold an engine forever
+const MAX_SESSION_MS = 10 * 60 * 1000;
+const MAX_MULTI_PV = 5;
+
+export function toSan(fen: string, pv: string[]): string[] {
+  const chess = new Chess(fen);
+  const san: string[] = [];
+  for (const uci of pv) {
+    try {
+      const move = chess.move({
+        from: uci.slice(0, 2),
+        to: uci.slice(2, 4),
+        promotion: uci.length > 4 ? uci[4] : undefined,
+      });
+      san.push(move.san);
+    } catch {
+      break;
+    }
+  }
+  return san;
+}
+
+function toLiveLine(fen: string, line: EngineLine): LiveAnalysisLine {
+  // Engine scores are from the side to move
+  const sign = fen.split(' ')[1] === 'b' ? -1 : 1;
+  return {
+    rank: line.rank,
+    score: line.score * sign,
+    mate: line.mate !== undefined ? line.mate * sign : undefined,
+    pv: line.pv,
+    san: toSan(fen, line.pv),
+    depth: line.depth,
+    nodes: line.nodes,
+    nps: line.nps,
+  };
+}
+
+/**
+ * Infinite engine analysis streamed to WebSocket subscribers. Each subscriber
+ * has at most one running session, which follows its game to new positions
+ * and ends when the subscriber stops it or disconnects.
+ */
+export class LiveAnalysisService {
+  private sessions = new Map<object, LiveAnalysisSession>();
+
+  start(subscriber: object, gameId: string, fen: string, send: SendFn, multiPv: number = 3, follow: boolean = true) {
+    this.stop(subscriber, 'restarted');
+
+    const session: LiveAnalysisSession = {
+      gameId,
+      fen,
+      multiPv: Math.max(1, Math.min(MAX_MULTI_PV, Math.floor(multiPv) || 1)),
+      follow,
+      send,
+      controller: new AbortController(),
+    };
+    this.sessions.set(subscriber, session);
+    this.run(subscriber, session);
+  }
+
+  stop(subscriber: object, reason: string = 'stopped') {
+    const session = this.sessions.get(subscriber);
+    if (!session) return;
+
+    this.sessions.delete(subscriber);
+    session.controller.abort();
+    session.send('analysis_stopped', { gameId: session.gameId, fen: session.fen, reason });
+  }
+
+  /**
+   * Move every session following this game on to the new position.
+   */
+  positionChanged(gameId: string, fen: string) {
+    for (const [subscriber, session] of Array.from(this.sessions.entries())) {
+      if (session.gameId === gameId && session.follow && session.fen !== fen) {
+        this.stop(subscriber, 'position_changed');
+        this.start(subscriber, gameId, fen, session.send, session.multiPv);
+      }
+    }
+  }
+
+  private async run(subscriber: object, session: LiveAnalysisSession) {
+    let lastSentAt = 0;
+    let pending: EngineLine[] | null = null;
+    let flushTimer: NodeJS.Timeout | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      if (!pending || session.controller.signal.aborted) return;
+
+      const lines = pending.map(line => toLiveLine(session.fen, line));
+      pending = null;
+      lastSentAt = Date.now();
+      const update: LiveAnalysisUpdate = {
+        gameId: session.gameId,
+        fen: session.fen,
+        depth: lines[0]?.depth || 0,
+        lines,
+      };
+      session.send('analysis_update', update);
+    };
+
+    try {
+      await enginePool.analyze(session.fen, (lines) => {
+        pending = lines;
+        if (flushTimer) return;
+        const wait = Math.max(0, UPDATE_INTERVAL_MS - (Date.now() - lastSentAt));
+        flushTimer = setTimeout(flush, wait);
+      }, {
+        multiPv: session.multiPv,
+        signal: session.controller.signal,
+        timeoutMs: MAX_SESSION_MS,
+      });
+    } catch (error) {
+      if (!session.controller.signal.aborted) {
+        console.error('Live analysis error:', error);
+      }
+    } finally {
+      if (flushTimer) clearTimeout(flushTimer);
+    }
+
+    // The search ended on its own (timeout or engine failure) rather than being stopped
+    if (this.sessions.get(subscriber) === session) {
+      this.stop(subscriber, 'ended');
+    }
+  }
+}
+
+export const liveAnalysis = new LiveAnalysisService();
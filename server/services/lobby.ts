@@ -0,0 +1,97 @@
+import { nanoid } from 'nanoid';
+import type { Seek, SeekColor } from '@shared/lobby';
+import { type TimeControl, getTimeControlCategory } from '@shared/timeControl';
+
+type SeeksListener = (seeks: Seek[]) => void;
+
+// Seeks nobody accepts disappear after a while rather than piling up
+const SEEK_TTL_MS = 10 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 30 * 1000;
+export const MAX_SEEKS_PER_USER = 3;
+
+/**
+ * Open seeks waiting for an opponent. Seeks only matter while their players
+ * are around, so they live in memory; listeners hear about every change.
+ */
+export class LobbyService {
+  private seeks = new Map<string, Seek>();
+  private listeners = new Set<SeeksListener>();
+
+  list(): Seek[] {
+    return Array.from(this.seeks.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  get(id: string): Seek | undefined {
+    return this.seeks.get(id);
+  }
+
+  countFor(userId: string): number {
+    return this.list().filter(seek => seek.userId === userId).length;
+  }
+
+  add(userId: string, name: string, timeControl: TimeControl, color: SeekColor, rated: boolean): Seek {
+    const now = Date.now();
+    const seek: Seek = {
+      id: nanoid(10),
+      userId,
+      name,
+      timeControl,
+      category: getTimeControlCategory(timeControl),
+      color,
+      rated,
+      createdAt: now,
+      expiresAt: now + SEEK_TTL_MS,
+    };
+    this.seeks.set(seek.id, seek);
+    this.changed();
+    return seek;
+  }
+
+  /**
+   * Remove a seek and hand it back, so that only one of several players
+   * accepting at the same moment gets it.
+   */
+  take(id: string): Seek | undefined {
+    const seek = this.seeks.get(id);
+    if (!seek) return undefined;
+    this.seeks.delete(id);
+    this.changed();
+    return seek;
+  }
+
+  // Put back a taken seek whose game couldn't be started, unless it has expired meanwhile
+  restore(seek: Seek) {
+    if (seek.expiresAt <= Date.now() || this.seeks.has(seek.id)) return;
+    this.seeks.set(seek.id, seek);
+    this.changed();
+  }
+
+  removeExpired(now: number = Date.now()) {
+    let removed = false;
+    for (const seek of Array.from(this.seeks.values())) {
+      if (seek.expiresAt <= now) {
+        this.seeks.delete(seek.id);
+        removed = true;
+      }
+    }
+    if (removed) this.changed();
+  }
+
+  onChange(listener: SeeksListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  startSweeper(): NodeJS.Timeout {
+    const timer = setInterval(() => this.removeExpired(), SWEEP_INTERVAL_MS);
+    timer.unref();
+    return timer;
+  }
+
+  private changed() {
+    const seeks = this.list();
+    this.listeners.forEach(listener => listener(seeks));
+  }
+}
+
+export const lobby = new LobbyService();
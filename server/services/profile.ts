@@ -0,0 +1,160 @@
+import { storage } from '../storage';
+import { getGameCategory } from './rating';
+import { getPgnMoves, identifyOpening } from '@shared/openings';
+import { getPlayerColor, isAIGame, type PlayerColor } from '@shared/players';
+import type { Game, User } from '@shared/schema';
+import {
+  PROVISIONAL_DEVIATION,
+  type GameOutcome,
+  type LeaderboardPage,
+  type LeaderboardQuery,
+  type OpeningStats,
+  type PlayerProfile,
+  type ProfileGame,
+  type PublicPlayer,
+  type ResultCounts,
+} from '@shared/profile';
+
+const RECENT_GAMES = 10;
+const FAVOURITE_OPENINGS = 5;
+
+export function toPublicPlayer(user: User): PublicPlayer {
+  return {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    profileImageUrl: user.profileImageUrl,
+  };
+}
+
+export async function getLeaderboard({ category, page, pageSize }: LeaderboardQuery): Promise<LeaderboardPage> {
+  const offset = (page - 1) * pageSize;
+  const { total, entries } = await storage.getLeaderboard(category, {
+    limit: pageSize,
+    offset,
+    maxDeviation: PROVISIONAL_DEVIATION,
+  });
+
+  return {
+    category,
+    page,
+    pageSize,
+    total,
+    entries: entries.map(({ rating, user }, index) => ({
+      rank: offset + index + 1,
+      player: toPublicPlayer(user),
+      rating: rating.rating,
+      deviation: rating.deviation,
+      gamesPlayed: rating.gamesPlayed,
+    })),
+  };
+}
+
+function getOutcome(result: string | null, color: PlayerColor): GameOutcome | null {
+  if (result === '1/2-1/2') return 'draw';
+  if (result === '1-0') return color === 'white' ? 'win' : 'loss';
+  if (result === '0-1') return color === 'black' ? 'win' : 'loss';
+  return null;
+}
+
+const emptyCounts = (): ResultCounts => ({ wins: 0, draws: 0, losses: 0 });
+
+function count(counts: ResultCounts, outcome: GameOutcome) {
+  if (outcome === 'win') counts.wins++;
+  else if (outcome === 'draw') counts.draws++;
+  else counts.losses++;
+}
+
+/**
+ * A player's public profile: results split by colour and by opponent, the
+ * openings they play most, their latest games and their average accuracy in
+ * the games that were analysed.
+ */
+export async function getPlayerProfile(userId: string): Promise<PlayerProfile | undefined> {
+  const user = await storage.getUser(userId);
+  if (!user) return undefined;
+
+  const [games, ratings] = await Promise.all([
+    storage.getUserGames(userId),
+    storage.getPlayerRatings(userId),
+  ]);
+
+  const totals = emptyCounts();
+  const byColor = { white: emptyCounts(), black: emptyCounts() };
+  const byOpponent = { ai: emptyCounts(), human: emptyCounts() };
+  const openings = new Map<string, OpeningStats>();
+  const gameOpenings = new Map<string, string | null>();
+
+  for (const game of games) {
+    const color = getPlayerColor(game, userId);
+    const outcome = color && game.status === 'completed' ? getOutcome(game.result, color) : null;
+    const opening = identifyOpening(getPgnMoves(game.pgn));
+    gameOpenings.set(game.id, opening?.name ?? null);
+    if (!color || !outcome) continue;
+
+    count(totals, outcome);
+    count(byColor[color], outcome);
+    count(byOpponent[isAIGame(game) ? 'ai' : 'human'], outcome);
+
+    if (opening) {
+      const stats = openings.get(opening.name) ?? { eco: opening.eco, name: opening.name, games: 0, ...emptyCounts() };
+      stats.games++;
+      count(stats, outcome);
+      openings.set(opening.name, stats);
+    }
+  }
+
+  const favouriteOpenings = Array.from(openings.values())
+    .sort((a, b) => b.games - a.games || b.wins - a.wins)
+    .slice(0, FAVOURITE_OPENINGS);
+
+  const recentGames = await Promise.all(
+    games.slice(0, RECENT_GAMES).map(game => toProfileGame(game, userId, gameOpenings.get(game.id) ?? null)),
+  );
+
+  // Accuracy is stored per side, so only the player's own side counts
+  const colors = new Map(games.map(game => [game.id, getPlayerColor(game, userId)]));
+  const accuracies = (await storage.getGamesAnalyses(games.map(game => game.id)))
+    .map(analysis => colors.get(analysis.gameId) === 'white' ? analysis.whiteAccuracy : analysis.blackAccuracy)
+    .filter((accuracy): accuracy is number => accuracy !== null);
+
+  return {
+    player: toPublicPlayer(user),
+    memberSince: user.createdAt?.toISOString() ?? null,
+    ratings,
+    totals,
+    byColor,
+    byOpponent,
+    favouriteOpenings,
+    recentGames,
+    averageAccuracy: accuracies.length > 0
+      ? Math.round(accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length)
+      : null,
+    analysedGames: accuracies.length,
+  };
+}
+
+async function toProfileGame(game: Game, userId: string, opening: string | null): Promise<ProfileGame> {
+  const color = getPlayerColor(game, userId) ?? 'white';
+  return {
+    id: game.id,
+    color,
+    opponentName: await getOpponentName(game, color),
+    opponentType: isAIGame(game) ? 'ai' : 'human',
+    result: game.result,
+    outcome: game.status === 'completed' ? getOutcome(game.result, color) : null,
+    termination: game.termination,
+    rated: game.rated ?? false,
+    category: getGameCategory(game),
+    opening,
+    createdAt: game.createdAt?.toISOString() ?? null,
+  };
+}
+
+async function getOpponentName(game: Game, color: PlayerColor): Promise<string> {
+  if (isAIGame(game)) return `AnveshAI (${game.aiDifficulty})`;
+  const opponentId = color === 'white' ? game.blackPlayerId : game.whitePlayerId;
+  if (!opponentId) return game.guestId ? 'Guest' : 'Waiting for opponent';
+  const opponent = await storage.getUser(opponentId);
+  return opponent?.firstName || 'Player';
+}
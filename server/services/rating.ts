@@ -0,0 +1,192 @@
+import { storage } from '../storage';
+import { getTimeControl } from './clock';
+import { getTimeControlCategory, type TimeControlCategory } from '@shared/timeControl';
+import { AI_PLAYER_ID, type PlayerColor } from '@shared/players';
+import type { Game, InsertRating, InsertRatingChange, RatingChange } from '@shared/schema';
+
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export interface Glicko2Result {
+  opponent: Glicko2Rating;
+  score: number; // 1 for a win, 0.5 for a draw, 0 for a loss
+}
+
+const INITIAL_RATING = 1500;
+const INITIAL_DEVIATION = 350;
+const INITIAL_VOLATILITY = 0.06;
+// AnveshAI plays close to its configured strength, so its ratings start out fairly certain
+const AI_INITIAL_DEVIATION = 100;
+// Keeps regular players' ratings from settling so firmly that they stop moving
+const MIN_DEVIATION = 45;
+// Constrains how much volatility can change; Glickman suggests 0.3 to 1.2
+const TAU = 0.5;
+const CONVERGENCE_TOLERANCE = 0.000001;
+// Converts between the Glicko and Glicko-2 scales
+const SCALE = 173.7178;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+const expectedScore = (mu: number, muOpponent: number, phiOpponent: number) =>
+  1 / (1 + Math.exp(-g(phiOpponent) * (mu - muOpponent)));
+
+/**
+ * One Glicko-2 rating period for a player, following Glickman's "Example of
+ * the Glicko-2 system". Ratings here are updated after every game, so each
+ * period usually holds a single result.
+ */
+export function updateGlicko2(player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating {
+  const mu = (player.rating - INITIAL_RATING) / SCALE;
+  const phi = player.deviation / SCALE;
+  const sigma = player.volatility;
+
+  if (results.length === 0) {
+    // A period without games only makes the rating less certain
+    const deviation = Math.sqrt(phi * phi + sigma * sigma) * SCALE;
+    return { ...player, deviation: Math.min(deviation, INITIAL_DEVIATION) };
+  }
+
+  let inverseVariance = 0;
+  let improvementSum = 0;
+  for (const { opponent, score } of results) {
+    const muOpponent = (opponent.rating - INITIAL_RATING) / SCALE;
+    const phiOpponent = opponent.deviation / SCALE;
+    const expected = expectedScore(mu, muOpponent, phiOpponent);
+    inverseVariance += g(phiOpponent) ** 2 * expected * (1 - expected);
+    improvementSum += g(phiOpponent) * (score - expected);
+  }
+  const v = 1 / inverseVariance;
+  const delta = v * improvementSum;
+
+  // New volatility by the Illinois algorithm
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denominator * denominator) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE_TOLERANCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  const volatility = Math.exp(A / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * improvementSum;
+
+  return {
+    rating: muNew * SCALE + INITIAL_RATING,
+    deviation: Math.min(Math.max(phiNew * SCALE, MIN_DEVIATION), INITIAL_DEVIATION),
+    volatility,
+  };
+}
+
+/**
+ * The id AnveshAI is rated under at a difficulty; each difficulty is a
+ * separate opponent with its own rating.
+ */
+export function getAIRatingId(aiDifficulty: number): string {
+  return `${AI_PLAYER_ID}:${aiDifficulty}`;
+}
+
+export function getGameCategory(game: Game): TimeControlCategory {
+  const control = getTimeControl(game);
+  // Untimed games have all the time they want
+  return control ? getTimeControlCategory(control) : 'classical';
+}
+
+// The rating a player has in a category before their first rated game there
+function getInitialRating(playerId: string, game: Game): Glicko2Rating {
+  if (playerId === getAIRatingId(game.aiDifficulty)) {
+    return { rating: game.aiDifficulty, deviation: AI_INITIAL_DEVIATION, volatility: INITIAL_VOLATILITY };
+  }
+  return { rating: INITIAL_RATING, deviation: INITIAL_DEVIATION, volatility: INITIAL_VOLATILITY };
+}
+
+// Who is rated in each seat: the user sitting there, or AnveshAI at the game's difficulty
+function getRatedPlayerId(game: Game, color: PlayerColor): string | null {
+  const seat = color === 'white' ? game.whitePlayerId : game.blackPlayerId;
+  if (seat === AI_PLAYER_ID) return getAIRatingId(game.aiDifficulty);
+  return seat;
+}
+
+const WHITE_SCORES: { [result: string]: number } = { '1-0': 1, '0-1': 0, '1/2-1/2': 0.5 };
+
+/**
+ * Update both players' ratings for a finished rated game and record the
+ * changes. Casual games, games with a guest in them and games rated before
+ * are left alone; the changes recorded for the game are returned either way.
+ */
+export async function rateGame(game: Game): Promise<RatingChange[]> {
+  const whiteScore = game.result ? WHITE_SCORES[game.result] : undefined;
+  if (!game.rated || game.status !== 'completed' || whiteScore === undefined) return [];
+
+  const whiteId = getRatedPlayerId(game, 'white');
+  const blackId = getRatedPlayerId(game, 'black');
+  if (!whiteId || !blackId) return [];
+
+  const category = getGameCategory(game);
+  const initial: InsertRating[] = [whiteId, blackId].map(playerId => ({
+    playerId,
+    category,
+    ...getInitialRating(playerId, game),
+  }));
+
+  // Storage hands over the current ratings only once no other game can change them
+  return storage.recordRatedGame(game.id, initial, ([white, black]) => {
+    const newWhite = updateGlicko2(white, [{ opponent: black, score: whiteScore }]);
+    const newBlack = updateGlicko2(black, [{ opponent: white, score: 1 - whiteScore }]);
+
+    const ratings: InsertRating[] = [
+      { playerId: whiteId, category, ...newWhite, gamesPlayed: white.gamesPlayed + 1 },
+      { playerId: blackId, category, ...newBlack, gamesPlayed: black.gamesPlayed + 1 },
+    ];
+    const changes: InsertRatingChange[] = [
+      {
+        gameId: game.id,
+        playerId: whiteId,
+        color: 'white',
+        category,
+        ratingBefore: white.rating,
+        ratingAfter: newWhite.rating,
+        deviationBefore: white.deviation,
+        deviationAfter: newWhite.deviation,
+      },
+      {
+        gameId: game.id,
+        playerId: blackId,
+        color: 'black',
+        category,
+        ratingBefore: black.rating,
+        ratingAfter: newBlack.rating,
+        deviationBefore: black.deviation,
+        deviationAfter: newBlack.deviation,
+      },
+    ];
+    return { ratings, changes };
+  });
+}
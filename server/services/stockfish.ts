@@ -1,89 +1,252 @@
-import { spawn, ChildProcess } from 'child_process';
+import {
+  EngineBackend,
+  EngineProcess,
+  NativeEngineProcess,
+  WasmEngineProcess,
+  resolveWasmEnginePath,
+} from './engineProcess';
+
+// One ranked line of a (MultiPV) search
+export interface EngineLine {
+  rank: number; // 1 = best
+  score: number; // pawns, from the side to move
+  mate?: number; // moves to mate
+  pv: string[]; // principal variation
+  depth: number;
+  nodes: number;
+  nps: number;
+}
 
 export interface EngineEvaluation {
-  score: number; // centipawns
+  score: number; // pawns, from the side to move
   mate?: number; // moves to mate
   bestMove: string;
   pv: string[]; // principal variation
   depth: number;
+  lines: EngineLine[]; // ranked lines, best first; only the top line unless multiPv was requested
+}
+
+export interface EngineRequestOptions {
+  timeoutMs?: number; // rejects the request if the engine hasn't answered in time (including time spent queued)
+  signal?: AbortSignal; // aborting cancels the request, stopping the search if it is already running
+}
+
+export interface EvaluationOptions extends EngineRequestOptions {
+  multiPv?: number; // number of ranked lines to return
+}
+
+// Limits for a single search; anything left out runs at full strength
+export interface SearchLimits {
+  movetime?: number; // milliseconds
+  depth?: number;
+  nodes?: number;
+  multiPv?: number; // number of ranked lines to report
+  skillLevel?: number; // Stockfish 'Skill Level', 0-20
+  elo?: number; // enables UCI_LimitStrength at this rating
+  infinite?: boolean; // search until stopped; the other limits are ignored
+}
+
+export interface EngineMoveSearch {
+  bestMove: string; // the move the engine chose, which may differ from lines[0] when strength is limited
+  lines: EngineLine[]; // ranked candidate lines, best first
+}
+
+export interface StockfishEngineOptions {
+  onExit?: (engine: StockfishEngine) => void; // called when a running process dies, so the owner can replace it
+}
+
+interface EngineJob {
+  id: number;
+  fen: string;
+  limits: SearchLimits;
+  lines: Map<number, EngineLine>; // latest info line per multipv index
+  onUpdate?: (lines: EngineLine[]) => void;
+  settled: boolean;
+  timer?: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+  resolve: (result: EngineMoveSearch) => void;
+  reject: (error: Error) => void;
 }
 
+const DEFAULT_TIMEOUT_MS = 30000;
+// How long a stopped search may take to report its bestmove before the process is considered hung
+const STOP_GRACE_MS = 2000;
+// Stockfish rejects UCI_Elo values outside this range
+export const MIN_UCI_ELO = 1320;
+export const MAX_UCI_ELO = 3190;
+
+type BackendSetting = 'auto' | EngineBackend;
+
+function getBackendSetting(): BackendSetting {
+  const setting = (process.env.STOCKFISH_BACKEND || 'auto').toLowerCase();
+  return setting === 'native' || setting === 'wasm' ? setting : 'auto';
+}
+
+// Set once the native binary has failed to spawn, so later engines start on WASM straight away
+let nativeUnavailable = false;
+
 export class StockfishEngine {
-  private engine: ChildProcess | null = null;
+  private engine: EngineProcess | null = null;
   private isReady = false;
-  private resolveMap = new Map<string, (value: any) => void>();
+  private outputBuffer = '';
+  private queue: EngineJob[] = [];
+  private currentJob: EngineJob | null = null;
+  private nextJobId = 1;
+  private stopTimer: NodeJS.Timeout | null = null;
 
-  constructor() {
+  constructor(private options: StockfishEngineOptions = {}) {
     this.initEngine();
   }
 
   private initEngine() {
+    const engine = this.createEngineProcess();
+    this.engine = engine;
+    this.outputBuffer = '';
+
+    if (!engine) {
+      console.error('Stockfish not available, engine requests will fail');
+      this.isReady = true;
+      return;
+    }
+    console.log(`Starting Stockfish (${engine.backend} backend)`);
+
+    engine.on('output', (output: string) => {
+      this.handleEngineOutput(output);
+    });
+
+    engine.on('stderr', (output: string) => {
+      console.error('Stockfish error:', output);
+    });
+
+    engine.on('error', (error: NodeJS.ErrnoException) => {
+      if (this.engine !== engine) return;
+
+      if (engine.backend === 'native' && error.code === 'ENOENT' && getBackendSetting() === 'auto') {
+        console.warn('Native Stockfish binary not found, falling back to the WASM build');
+        nativeUnavailable = true;
+        engine.kill();
+        this.initEngine();
+        return;
+      }
+
+      console.error('Failed to start Stockfish:', error);
+      // A failed worker also exits, which is reported (and restarted) below. A native process
+      // is let go of here, so its exit is ignored and the owner has to hear about it now
+      if (engine.backend === 'native') {
+        this.handleEngineLost(engine, error);
+        this.options.onExit?.(this);
+      }
+    });
+
+    engine.on('exit', (code: number | null, signal: string | null) => {
+      if (this.engine === engine) {
+        console.error(`Stockfish exited unexpectedly (code ${code}, signal ${signal})`);
+        this.handleEngineLost(engine, new Error('Stockfish process exited'));
+        this.options.onExit?.(this);
+      }
+    });
+
+    // Initialize engine
+    this.sendCommand('uci');
+    this.sendCommand('isready');
+  }
+
+  /**
+   * Start the configured backend. With STOCKFISH_BACKEND=auto (the default) the native
+   * binary is tried first and the WASM build from the stockfish package is used once
+   * it turns out to be missing.
+   */
+  private createEngineProcess(): EngineProcess | null {
+    const setting = getBackendSetting();
     try {
-      // Try different possible stockfish paths
-      const possiblePaths = ['stockfish', '/usr/bin/stockfish', '/usr/local/bin/stockfish'];
-      let enginePath = 'stockfish';
-      
-      // In production, stockfish should be available via package manager
-      this.engine = spawn(enginePath, [], {
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
-
-      this.engine.stdout?.on('data', (data) => {
-        this.handleEngineOutput(data.toString());
-      });
-
-      this.engine.stderr?.on('data', (data) => {
-        console.error('Stockfish error:', data.toString());
-      });
-
-      this.engine.on('error', (error) => {
-        console.error('Failed to start Stockfish:', error);
-        // Fallback: use simplified evaluation
-        this.isReady = true;
-      });
+      if (setting === 'native' || (setting === 'auto' && !nativeUnavailable)) {
+        return new NativeEngineProcess(process.env.STOCKFISH_PATH || 'stockfish');
+      }
 
-      // Initialize engine
-      this.sendCommand('uci');
-      this.sendCommand('isready');
+      const wasmPath = resolveWasmEnginePath();
+      if (!wasmPath) {
+        console.error('WASM Stockfish build not found in the stockfish package');
+        return null;
+      }
+      return new WasmEngineProcess(wasmPath);
     } catch (error) {
-      console.error('Stockfish not available, using fallback evaluation');
-      this.isReady = true;
+      console.error('Failed to start Stockfish:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Drop a dead process and fail every request that was waiting on it,
+   * so callers fall back instead of hanging.
+   */
+  private handleEngineLost(engine: EngineProcess, error: Error) {
+    if (this.engine !== engine) return;
+
+    this.engine = null;
+    this.isReady = true;
+    this.clearStopTimer();
+
+    const pending = this.currentJob ? [this.currentJob, ...this.queue] : [...this.queue];
+    this.currentJob = null;
+    this.queue = [];
+    for (const job of pending) {
+      this.settleJob(job);
+      job.reject(error);
     }
   }
 
   private handleEngineOutput(output: string) {
-    const lines = output.trim().split('\n');
-    
-    for (const line of lines) {
+    // Output chunks don't necessarily end on a line boundary
+    this.outputBuffer += output;
+    const lines = this.outputBuffer.split('\n');
+    this.outputBuffer = lines.pop() || '';
+
+    for (const rawLine of lines) {
+      const line = rawLine.trim();
       if (line === 'uciok') {
         this.sendCommand('isready');
       } else if (line === 'readyok') {
         this.isReady = true;
+        this.processQueue();
       } else if (line.startsWith('bestmove')) {
         const parts = line.split(' ');
-        const bestMove = parts[1];
-        const resolver = this.resolveMap.get('bestmove');
-        if (resolver) {
-          resolver(bestMove);
-          this.resolveMap.delete('bestmove');
-        }
+        this.finishCurrentJob(parts[1]);
       } else if (line.startsWith('info')) {
-        this.parseEvaluation(line);
+        const engineLine = this.parseEvaluation(line);
+        const job = this.currentJob;
+        if (engineLine && job) {
+          job.lines.set(engineLine.rank, engineLine);
+          if (job.onUpdate && !job.settled) {
+            job.onUpdate(this.rankedLines(job));
+          }
+        }
       }
     }
   }
 
-  private parseEvaluation(line: string) {
+  private parseEvaluation(line: string): EngineLine | null {
     const parts = line.split(' ');
+    let rank = 1;
     let depth = 0;
+    let nodes = 0;
+    let nps = 0;
     let score = 0;
+    let hasScore = false;
     let mate: number | undefined;
     let pv: string[] = [];
 
     for (let i = 0; i < parts.length; i++) {
       if (parts[i] === 'depth') {
         depth = parseInt(parts[i + 1]);
+      } else if (parts[i] === 'multipv') {
+        rank = parseInt(parts[i + 1]);
+      } else if (parts[i] === 'nodes') {
+        nodes = parseInt(parts[i + 1]);
+      } else if (parts[i] === 'nps') {
+        nps = parseInt(parts[i + 1]);
       } else if (parts[i] === 'score') {
+        hasScore = true;
         if (parts[i + 1] === 'cp') {
           score = parseInt(parts[i + 2]);
         } else if (parts[i + 1] === 'mate') {
@@ -95,62 +258,269 @@ export class StockfishEngine {
       }
     }
 
-    const resolver = this.resolveMap.get('evaluation');
-    if (resolver && depth >= 10) { // Only return evaluation after reasonable depth
-      resolver({
-        score: score / 100, // Convert centipawns to pawns
-        mate,
-        bestMove: pv[0] || '',
-        pv,
-        depth
-      });
-      this.resolveMap.delete('evaluation');
+    // Skip currmove/hashfull updates that carry no line
+    if (!hasScore || pv.length === 0) {
+      return null;
     }
+
+    return {
+      rank,
+      score: score / 100, // Convert centipawns to pawns
+      mate,
+      pv,
+      depth,
+      nodes,
+      nps
+    };
   }
 
   private sendCommand(command: string) {
-    if (this.engine && this.engine.stdin) {
-      this.engine.stdin.write(command + '\n');
+    this.engine?.write(command);
+  }
+
+  /**
+   * Queue a search. Stockfish can only run one search at a time, so jobs are
+   * run strictly in order and each bestmove is routed to the job that started it.
+   */
+  private search(
+    fen: string,
+    limits: SearchLimits,
+    options: EngineRequestOptions = {},
+    onUpdate?: (lines: EngineLine[]) => void
+  ): Promise<EngineMoveSearch> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Engine request cancelled'));
+        return;
+      }
+
+      const job: EngineJob = {
+        id: this.nextJobId++,
+        fen,
+        limits,
+        lines: new Map(),
+        onUpdate,
+        settled: false,
+        signal: options.signal,
+        resolve,
+        reject,
+      };
+
+      const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      if (Number.isFinite(timeoutMs)) {
+        job.timer = setTimeout(() => {
+          this.cancelJob(job, new Error(`Engine request timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+      }
+
+      if (options.signal) {
+        job.onAbort = () => this.cancelJob(job, new Error('Engine request cancelled'));
+        options.signal.addEventListener('abort', job.onAbort, { once: true });
+      }
+
+      this.queue.push(job);
+      this.processQueue();
+    });
+  }
+
+  private processQueue() {
+    if (this.currentJob || !this.isReady || !this.engine) return;
+
+    const job = this.queue.shift();
+    if (!job) return;
+
+    this.currentJob = job;
+    // Options persist in the process, so every job sets all of them
+    const { limits } = job;
+    const limitStrength = limits.elo !== undefined;
+    this.sendCommand(`setoption name UCI_LimitStrength value ${limitStrength}`);
+    if (limitStrength) {
+      const elo = Math.round(Math.max(MIN_UCI_ELO, Math.min(MAX_UCI_ELO, limits.elo!)));
+      this.sendCommand(`setoption name UCI_Elo value ${elo}`);
     }
+    this.sendCommand(`setoption name Skill Level value ${limits.skillLevel ?? 20}`);
+    this.sendCommand(`setoption name MultiPV value ${limits.multiPv ?? 1}`);
+    this.sendCommand(`position fen ${job.fen}`);
+    this.sendCommand(this.buildGoCommand(limits));
   }
 
-  async getBestMove(fen: string, timeMs: number = 1000): Promise<string> {
+  private buildGoCommand(limits: SearchLimits): string {
+    if (limits.infinite) return 'go infinite';
+
+    const parts = ['go'];
+    if (limits.depth !== undefined) parts.push(`depth ${limits.depth}`);
+    if (limits.nodes !== undefined) parts.push(`nodes ${limits.nodes}`);
+    if (limits.movetime !== undefined) parts.push(`movetime ${limits.movetime}`);
+    return parts.join(' ');
+  }
+
+  private finishCurrentJob(bestMove: string) {
+    const job = this.currentJob;
+    this.currentJob = null;
+    this.clearStopTimer();
+
+    // A cancelled job still owns the engine until its bestmove arrives; it is just discarded
+    if (job && !job.settled) {
+      this.settleJob(job);
+      job.resolve({ bestMove, lines: this.rankedLines(job) });
+    }
+
+    this.processQueue();
+  }
+
+  private rankedLines(job: EngineJob): EngineLine[] {
+    return Array.from(job.lines.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, line]) => line);
+  }
+
+  private cancelJob(job: EngineJob, error: Error) {
+    if (job.settled) return;
+    this.settleJob(job);
+    job.reject(error);
+
+    if (job === this.currentJob) {
+      this.sendCommand('stop');
+      this.stopTimer = setTimeout(() => {
+        if (this.currentJob === job) {
+          console.error(`Stockfish did not stop job ${job.id}, restarting engine`);
+          this.restart();
+        }
+      }, STOP_GRACE_MS);
+    } else {
+      this.queue = this.queue.filter(queued => queued !== job);
+    }
+  }
+
+  private settleJob(job: EngineJob) {
+    job.settled = true;
+    if (job.timer) clearTimeout(job.timer);
+    if (job.signal && job.onAbort) {
+      job.signal.removeEventListener('abort', job.onAbort);
+    }
+  }
+
+  private clearStopTimer() {
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+  }
+
+  /**
+   * Replace a hung process. Queued jobs survive and run on the new process.
+   */
+  private restart() {
+    const engine = this.engine;
+    this.engine = null;
+    this.isReady = false;
+    this.currentJob = null;
+    this.clearStopTimer();
+
+    if (engine) {
+      engine.kill();
+    }
+
+    this.initEngine();
+  }
+
+  async getBestMove(fen: string, timeMs: number = 1000, options: EngineRequestOptions = {}): Promise<string> {
     if (!this.isReady) {
       await this.waitForReady();
     }
 
     if (!this.engine) {
-      // Fallback: return a random legal move (would need chess.js here)
-      return 'e2e4'; // Default opening move
+      throw new Error('Stockfish is not available');
     }
 
-    return new Promise((resolve) => {
-      this.resolveMap.set('bestmove', resolve);
-      this.sendCommand(`position fen ${fen}`);
-      this.sendCommand(`go movetime ${timeMs}`);
-    });
+    const result = await this.search(fen, { movetime: timeMs }, options);
+    return result.bestMove;
+  }
+
+  /**
+   * Run a (possibly strength-limited) search and return the engine's choice
+   * together with the ranked candidate lines it considered.
+   */
+  async searchMoves(fen: string, limits: SearchLimits, options: EngineRequestOptions = {}): Promise<EngineMoveSearch> {
+    if (!this.isReady) {
+      await this.waitForReady();
+    }
+
+    if (!this.engine) {
+      throw new Error('Stockfish is not available');
+    }
+
+    return this.search(fen, limits, options);
   }
 
-  async evaluatePosition(fen: string, depth: number = 15): Promise<EngineEvaluation> {
+  /**
+   * Analyse a position until `options.signal` is aborted, reporting the ranked
+   * lines every time the engine publishes a new one. Pass `timeoutMs: Infinity`
+   * to analyse without a time limit.
+   */
+  async analyze(
+    fen: string,
+    onUpdate: (lines: EngineLine[]) => void,
+    options: EvaluationOptions = {}
+  ): Promise<void> {
     if (!this.isReady) {
       await this.waitForReady();
     }
 
     if (!this.engine) {
-      // Fallback evaluation
+      throw new Error('Stockfish is not available');
+    }
+
+    try {
+      await this.search(fen, { infinite: true, multiPv: options.multiPv }, options, onUpdate);
+    } catch (error) {
+      // Being stopped is how an infinite analysis normally ends
+      if (!options.signal?.aborted) throw error;
+    }
+  }
+
+  async evaluatePosition(fen: string, depth: number = 15, options: EvaluationOptions = {}): Promise<EngineEvaluation> {
+    if (!this.isReady) {
+      await this.waitForReady();
+    }
+
+    if (!this.engine) {
+      throw new Error('Stockfish is not available');
+    }
+
+    const result = await this.search(fen, { depth, multiPv: options.multiPv }, options);
+    const best = result.lines[0];
+    if (!best) {
       return {
         score: 0,
-        bestMove: 'e2e4',
-        pv: ['e2e4'],
-        depth: 1
+        bestMove: result.bestMove,
+        pv: [result.bestMove],
+        depth: 0,
+        lines: []
       };
     }
 
-    return new Promise((resolve) => {
-      this.resolveMap.set('evaluation', resolve);
-      this.sendCommand(`position fen ${fen}`);
-      this.sendCommand(`go depth ${depth}`);
-    });
+    return {
+      score: best.score,
+      mate: best.mate,
+      bestMove: best.pv[0],
+      pv: best.pv,
+      depth: best.depth,
+      lines: result.lines
+    };
+  }
+
+  get ready(): boolean {
+    return this.isReady;
+  }
+
+  // Which implementation is running, or null when no engine could be started
+  get backend(): EngineBackend | null {
+    return this.engine?.backend ?? null;
+  }
+
+  get pendingJobs(): number {
+    return this.queue.length + (this.currentJob ? 1 : 0);
   }
 
   private async waitForReady(): Promise<void> {
@@ -166,22 +536,11 @@ export class StockfishEngine {
     });
   }
 
-  classifyMove(evaluation: EngineEvaluation, bestEval: EngineEvaluation): string {
-    const diff = Math.abs(evaluation.score - bestEval.score);
-    
-    if (diff <= 0.1) return 'best';
-    if (diff <= 0.25) return 'excellent';
-    if (diff <= 0.5) return 'good';
-    if (diff <= 1.0) return 'inaccuracy';
-    if (diff <= 2.0) return 'mistake';
-    return 'blunder';
-  }
-
   destroy() {
-    if (this.engine) {
-      this.engine.kill();
+    const engine = this.engine;
+    if (engine) {
+      this.handleEngineLost(engine, new Error('Engine destroyed'));
+      engine.kill();
     }
   }
 }
-
-export const stockfishEngine = new StockfishEngine();
@@ -0,0 +1,107 @@
+import { EngineLine, EngineMoveSearch, SearchLimits, MIN_UCI_ELO } from './stockfish';
+
+export interface StrengthProfile {
+  elo: number;
+  limits: SearchLimits;
+  temperature: number; // pawns; how far below the best line a move may be and still get picked
+  blunderChance: number; // probability of deliberately playing one of the weaker candidate lines
+}
+
+interface StrengthLevel {
+  elo: number;
+  skillLevel: number;
+  depth: number;
+  nodes?: number;
+  multiPv: number;
+  temperature: number;
+  blunderChance: number;
+}
+
+// Calibration points for the difficulties offered on the home page. Stockfish can't
+// limit itself below UCI_Elo 1320, so the lower levels rely on Skill Level, shallow
+// searches and our own sampling from the MultiPV candidates.
+const STRENGTH_LEVELS: StrengthLevel[] = [
+  { elo: 800, skillLevel: 0, depth: 2, nodes: 2000, multiPv: 5, temperature: 1.5, blunderChance: 0.15 },
+  { elo: 1200, skillLevel: 3, depth: 4, nodes: 10000, multiPv: 4, temperature: 0.8, blunderChance: 0.07 },
+  { elo: 1600, skillLevel: 8, depth: 8, nodes: 60000, multiPv: 3, temperature: 0.35, blunderChance: 0.03 },
+  { elo: 2000, skillLevel: 14, depth: 12, nodes: 400000, multiPv: 2, temperature: 0.15, blunderChance: 0.01 },
+  { elo: 2400, skillLevel: 19, depth: 18, multiPv: 1, temperature: 0, blunderChance: 0 },
+];
+
+// Mate scores are mapped onto a large centipawn value so they can be compared with regular lines
+const MATE_SCORE = 100;
+
+function lerp(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+/**
+ * Map an AnveshAI difficulty rating onto engine limits, interpolating between the
+ * calibration points for ratings that fall in between.
+ */
+export function getStrengthProfile(elo: number, movetime: number): StrengthProfile {
+  const first = STRENGTH_LEVELS[0];
+  const last = STRENGTH_LEVELS[STRENGTH_LEVELS.length - 1];
+  const rating = Math.max(first.elo, Math.min(last.elo, elo));
+
+  let upperIndex = STRENGTH_LEVELS.findIndex(level => level.elo >= rating);
+  if (upperIndex <= 0) upperIndex = 1;
+  const lower = STRENGTH_LEVELS[upperIndex - 1];
+  const upper = STRENGTH_LEVELS[upperIndex];
+  const t = (rating - lower.elo) / (upper.elo - lower.elo);
+
+  const limits: SearchLimits = {
+    movetime,
+    depth: Math.round(lerp(lower.depth, upper.depth, t)),
+    multiPv: Math.round(lerp(lower.multiPv, upper.multiPv, t)),
+    skillLevel: Math.round(lerp(lower.skillLevel, upper.skillLevel, t)),
+  };
+  if (lower.nodes !== undefined && upper.nodes !== undefined) {
+    limits.nodes = Math.round(lerp(lower.nodes, upper.nodes, t));
+  }
+  if (rating >= MIN_UCI_ELO) {
+    limits.elo = rating;
+  }
+
+  return {
+    elo: rating,
+    limits,
+    temperature: lerp(lower.temperature, upper.temperature, t),
+    blunderChance: lerp(lower.blunderChance, upper.blunderChance, t),
+  };
+}
+
+function lineScore(line: EngineLine): number {
+  if (line.mate !== undefined) {
+    return line.mate > 0 ? MATE_SCORE - line.mate : -MATE_SCORE - line.mate;
+  }
+  return line.score;
+}
+
+/**
+ * Pick the move to play from a strength-limited search. Stronger profiles keep the
+ * engine's own choice; weaker ones sample from the candidate lines, favouring moves
+ * close to the best one and occasionally playing a clearly worse line.
+ */
+export function pickMove(search: EngineMoveSearch, profile: StrengthProfile, random: () => number = Math.random): string {
+  const lines = search.lines.filter(line => line.pv.length > 0);
+  if (lines.length <= 1 || profile.temperature <= 0) {
+    return search.bestMove;
+  }
+
+  if (random() < profile.blunderChance) {
+    const weaker = lines.slice(1);
+    return weaker[Math.floor(random() * weaker.length)].pv[0];
+  }
+
+  const bestScore = lineScore(lines[0]);
+  const weights = lines.map(line => Math.exp(-(bestScore - lineScore(line)) / profile.temperature));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let roll = random() * total;
+  for (let i = 0; i < lines.length; i++) {
+    roll -= weights[i];
+    if (roll <= 0) return lines[i].pv[0];
+  }
+  return lines[0].pv[0];
+}
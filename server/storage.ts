@@ -3,6 +3,10 @@ import {
   games,
   moves,
   analyses,
+  analysisJobs,
+  positionEvaluations,
+  ratings,
+  ratingChanges,
   type User,
   type UpsertUser,
   type Game,
@@ -11,11 +15,49 @@ import {
   type InsertMove,
   type Analysis,
   type InsertAnalysis,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type PositionEvaluation,
+  type InsertPositionEvaluation,
+  type Rating,
+  type InsertRating,
+  type RatingChange,
+  type InsertRatingChange,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, asc, and, or, inArray, gt, gte, lt, lte, ilike, exists, notExists, sql, type SQL } from "drizzle-orm";
+import { getGameListCursor, type GameListPage, type GameListQuery } from "@shared/gameList";
 import { nanoid } from "nanoid";
 
+export interface LeaderboardOptions {
+  limit: number;
+  offset: number;
+  maxDeviation: number; // leaves out ratings still too uncertain to rank
+}
+
+export interface LeaderboardRow {
+  rating: Rating;
+  user: User;
+}
+
+// What analysis found for one move, written back onto its row
+export interface MoveAnalysisUpdate {
+  moveId: string;
+  evaluation: string;
+  bestMove: string | null;
+  classification: string;
+  accuracy: number;
+}
+
+// New ratings for a game's players and the changes that led to them
+export interface RatedGameUpdate {
+  ratings: InsertRating[];
+  changes: InsertRatingChange[];
+}
+
+// Works out a game's rating update from its players' current ratings, given in the order they were asked for
+export type RateGame = (current: Rating[]) => RatedGameUpdate;
+
 export interface IStorage {
   // User operations (required for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
@@ -24,17 +66,50 @@ export interface IStorage {
   // Game operations
   createGame(game: InsertGame): Promise<Game>;
   getGame(id: string): Promise<Game | undefined>;
+  getGameByInviteCode(inviteCode: string): Promise<Game | undefined>;
   updateGame(id: string, updates: Partial<Game>): Promise<Game>;
   getActiveGames(): Promise<Game[]>;
   getUserGames(userId: string): Promise<Game[]>;
+  // One page of a player's games, filtered and sorted; both backends must agree on every page
+  listUserGames(userId: string, query: GameListQuery): Promise<GameListPage>;
   
   // Move operations
   addMove(move: InsertMove): Promise<Move>;
   getGameMoves(gameId: string): Promise<Move[]>;
+  deleteLastMoves(gameId: string, count: number): Promise<Move[]>;
   
-  // Analysis operations
+  // Analysis operations; a game keeps only its latest analysis
   createAnalysis(analysis: InsertAnalysis): Promise<Analysis>;
   getGameAnalysis(gameId: string): Promise<Analysis | undefined>;
+  getGamesAnalyses(gameIds: string[]): Promise<Analysis[]>;
+  // Saves a finished analysis together with what it found for each move
+  saveAnalysisResults(analysis: InsertAnalysis, moveUpdates: MoveAnalysisUpdate[]): Promise<Analysis>;
+
+  // Analysis job operations
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  getAnalysisJob(id: string): Promise<AnalysisJob | undefined>;
+  getLatestAnalysisJob(gameId: string): Promise<AnalysisJob | undefined>;
+  // Jobs that were queued or running, oldest first
+  getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]>;
+  updateAnalysisJob(id: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob>;
+
+  // Position evaluation cache; without a database only the in-memory cache in front of it is kept
+  getPositionEvaluation(fen: string, depth: number, multiPv: number): Promise<PositionEvaluation | undefined>;
+  savePositionEvaluation(evaluation: InsertPositionEvaluation): Promise<void>;
+
+  // Rating operations
+  getRating(playerId: string, category: string): Promise<Rating | undefined>;
+  getPlayerRatings(playerId: string): Promise<Rating[]>;
+  // Signed-in players' ratings in a category, best first; AnveshAI isn't a user so it never appears
+  getLeaderboard(category: string, options: LeaderboardOptions): Promise<{ total: number; entries: LeaderboardRow[] }>;
+  getGameRatingChanges(gameId: string): Promise<RatingChange[]>;
+  /**
+   * Rates a game at most once. The players' ratings are read and saved as one
+   * step, so games finishing at the same time can't overwrite each other's
+   * updates; `initial` are the ratings of players new to the category. A game
+   * rated before keeps the changes it already has.
+   */
+  recordRatedGame(gameId: string, initial: InsertRating[], rate: RateGame): Promise<RatingChange[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -78,6 +153,11 @@ export class DatabaseStorage implements IStorage {
     return game;
   }
 
+  async getGameByInviteCode(inviteCode: string): Promise<Game | undefined> {
+    const [game] = await db.select().from(games).where(eq(games.inviteCode, inviteCode));
+    return game;
+  }
+
   async updateGame(id: string, updates: Partial<Game>): Promise<Game> {
     const [game] = await db
       .update(games)
@@ -93,10 +173,62 @@ export class DatabaseStorage implements IStorage {
 
   async getUserGames(userId: string): Promise<Game[]> {
     return db.select().from(games)
-      .where(eq(games.whitePlayerId, userId))
+      .where(or(eq(games.whitePlayerId, userId), eq(games.blackPlayerId, userId)))
       .orderBy(desc(games.createdAt));
   }
 
+  async listUserGames(userId: string, query: GameListQuery): Promise<GameListPage> {
+    const asWhite = eq(games.whitePlayerId, userId);
+    const asBlack = eq(games.blackPlayerId, userId);
+    // Postgres keeps microseconds; cursors only carry milliseconds
+    const createdAt = sql`date_trunc('milliseconds', ${games.createdAt})`;
+    const hasAnalysis = db.select({ id: analyses.id }).from(analyses).where(eq(analyses.gameId, games.id));
+
+    const conditions: (SQL | undefined)[] = [or(asWhite, asBlack)];
+    if (query.color) conditions.push(query.color === 'white' ? asWhite : asBlack);
+    if (query.result === 'win') {
+      conditions.push(or(and(asWhite, eq(games.result, '1-0')), and(asBlack, eq(games.result, '0-1'))));
+    } else if (query.result === 'loss') {
+      conditions.push(or(and(asWhite, eq(games.result, '0-1')), and(asBlack, eq(games.result, '1-0'))));
+    } else if (query.result === 'draw') {
+      conditions.push(eq(games.result, '1/2-1/2'));
+    }
+    if (query.opponent) conditions.push(eq(games.opponentType, query.opponent));
+    if (query.difficulty !== undefined) {
+      conditions.push(eq(games.opponentType, 'ai'), eq(games.aiDifficulty, query.difficulty));
+    }
+    if (query.from) conditions.push(gte(games.createdAt, query.from));
+    if (query.to) conditions.push(lte(games.createdAt, query.to));
+    if (query.opening) {
+      conditions.push(ilike(games.opening, `%${query.opening.replace(/[\\%_]/g, '\\$&')}%`));
+    }
+    if (query.analyzed !== undefined) {
+      conditions.push(query.analyzed ? exists(hasAnalysis) : notExists(hasAnalysis));
+    }
+    if (query.cursor) {
+      const after = query.sort === 'newest' ? lt : gt;
+      // Compared as UTC, the way drizzle stores timestamps
+      const cursorTime = sql`${new Date(query.cursor.createdAt).toISOString()}::timestamp`;
+      conditions.push(or(
+        after(createdAt, cursorTime),
+        and(eq(createdAt, cursorTime), after(games.id, query.cursor.id)),
+      ));
+    }
+
+    const order = query.sort === 'newest' ? desc : asc;
+    const rows: Game[] = await db.select().from(games)
+      .where(and(...conditions))
+      .orderBy(order(createdAt), order(games.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const analysed = new Set((await this.getGamesAnalyses(page.map(game => game.id))).map(analysis => analysis.gameId));
+    return {
+      games: page.map(game => ({ ...game, analyzed: analysed.has(game.id) })),
+      nextCursor: rows.length > query.limit ? getGameListCursor(page[page.length - 1]) : null,
+    };
+  }
+
   // Move operations
   async addMove(move: InsertMove): Promise<Move> {
     const [newMove] = await db.insert(moves).values(move).returning();
@@ -106,19 +238,162 @@ export class DatabaseStorage implements IStorage {
   async getGameMoves(gameId: string): Promise<Move[]> {
     return db.select().from(moves)
       .where(eq(moves.gameId, gameId))
-      .orderBy(moves.moveNumber);
+      .orderBy(moves.moveNumber, moves.createdAt);
+  }
+
+  async deleteLastMoves(gameId: string, count: number): Promise<Move[]> {
+    const gameMoves = await this.getGameMoves(gameId);
+    const removed = gameMoves.slice(Math.max(0, gameMoves.length - count));
+    if (removed.length === 0) return [];
+    await db.delete(moves).where(inArray(moves.id, removed.map(move => move.id)));
+    return removed;
   }
 
   // Analysis operations
   async createAnalysis(analysis: InsertAnalysis): Promise<Analysis> {
-    const [newAnalysis] = await db.insert(analyses).values(analysis).returning();
-    return newAnalysis;
+    return db.transaction(async (tx: any) => {
+      await tx.delete(analyses).where(eq(analyses.gameId, analysis.gameId));
+      const [newAnalysis] = await tx.insert(analyses).values(analysis).returning();
+      return newAnalysis;
+    });
   }
 
   async getGameAnalysis(gameId: string): Promise<Analysis | undefined> {
     const [analysis] = await db.select().from(analyses).where(eq(analyses.gameId, gameId));
     return analysis;
   }
+
+  async getGamesAnalyses(gameIds: string[]): Promise<Analysis[]> {
+    if (gameIds.length === 0) return [];
+    return db.select().from(analyses).where(inArray(analyses.gameId, gameIds));
+  }
+
+  async saveAnalysisResults(analysis: InsertAnalysis, moveUpdates: MoveAnalysisUpdate[]): Promise<Analysis> {
+    return db.transaction(async (tx: any) => {
+      for (const { moveId, ...update } of moveUpdates) {
+        await tx.update(moves).set(update).where(eq(moves.id, moveId));
+      }
+      await tx.delete(analyses).where(eq(analyses.gameId, analysis.gameId));
+      const [newAnalysis] = await tx.insert(analyses).values(analysis).returning();
+      return newAnalysis;
+    });
+  }
+
+  // Analysis job operations
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [newJob] = await db.insert(analysisJobs).values(job).returning();
+    return newJob;
+  }
+
+  async getAnalysisJob(id: string): Promise<AnalysisJob | undefined> {
+    const [job] = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async getLatestAnalysisJob(gameId: string): Promise<AnalysisJob | undefined> {
+    const [job] = await db.select().from(analysisJobs)
+      .where(eq(analysisJobs.gameId, gameId))
+      .orderBy(desc(analysisJobs.createdAt))
+      .limit(1);
+    return job;
+  }
+
+  async getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]> {
+    return db.select().from(analysisJobs)
+      .where(inArray(analysisJobs.status, ['queued', 'running']))
+      .orderBy(asc(analysisJobs.createdAt));
+  }
+
+  async updateAnalysisJob(id: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob> {
+    const [job] = await db.update(analysisJobs).set(updates).where(eq(analysisJobs.id, id)).returning();
+    return job;
+  }
+
+  // Position evaluation cache
+  async getPositionEvaluation(fen: string, depth: number, multiPv: number): Promise<PositionEvaluation | undefined> {
+    const [evaluation] = await db.select().from(positionEvaluations)
+      .where(and(
+        eq(positionEvaluations.fen, fen),
+        eq(positionEvaluations.depth, depth),
+        eq(positionEvaluations.multiPv, multiPv),
+      ));
+    return evaluation;
+  }
+
+  async savePositionEvaluation(evaluation: InsertPositionEvaluation): Promise<void> {
+    await db
+      .insert(positionEvaluations)
+      .values(evaluation)
+      .onConflictDoUpdate({
+        target: [positionEvaluations.fen, positionEvaluations.depth, positionEvaluations.multiPv],
+        set: { evaluation: evaluation.evaluation, createdAt: new Date() },
+      });
+  }
+
+  // Rating operations
+  async getRating(playerId: string, category: string): Promise<Rating | undefined> {
+    const [rating] = await db.select().from(ratings)
+      .where(and(eq(ratings.playerId, playerId), eq(ratings.category, category)));
+    return rating;
+  }
+
+  async getPlayerRatings(playerId: string): Promise<Rating[]> {
+    return db.select().from(ratings).where(eq(ratings.playerId, playerId));
+  }
+
+  async getLeaderboard(category: string, options: LeaderboardOptions): Promise<{ total: number; entries: LeaderboardRow[] }> {
+    const conditions = and(eq(ratings.category, category), lte(ratings.deviation, options.maxDeviation));
+    const entries = await db.select({ rating: ratings, user: users })
+      .from(ratings)
+      .innerJoin(users, eq(ratings.playerId, users.id))
+      .where(conditions)
+      .orderBy(desc(ratings.rating), desc(ratings.gamesPlayed))
+      .limit(options.limit)
+      .offset(options.offset);
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` })
+      .from(ratings)
+      .innerJoin(users, eq(ratings.playerId, users.id))
+      .where(conditions);
+    return { total, entries };
+  }
+
+  async getGameRatingChanges(gameId: string): Promise<RatingChange[]> {
+    return db.select().from(ratingChanges).where(eq(ratingChanges.gameId, gameId));
+  }
+
+  async recordRatedGame(gameId: string, initial: InsertRating[], rate: RateGame): Promise<RatingChange[]> {
+    return db.transaction(async (tx: any) => {
+      // Make sure both rows exist so they can be locked, always in the same order so two games can't deadlock
+      const sorted = [...initial].sort((a, b) => a.playerId.localeCompare(b.playerId));
+      for (const rating of sorted) {
+        await tx.insert(ratings).values({ ...rating, gamesPlayed: 0 }).onConflictDoNothing();
+      }
+      const locked: Rating[] = await tx.select().from(ratings)
+        .where(or(...initial.map(rating =>
+          and(eq(ratings.playerId, rating.playerId), eq(ratings.category, rating.category)))))
+        .orderBy(asc(ratings.playerId))
+        .for('update');
+
+      // Checked under the locks, so a game finishing twice at once is only rated once
+      const existing = await tx.select().from(ratingChanges).where(eq(ratingChanges.gameId, gameId));
+      if (existing.length > 0) return existing;
+
+      const current = initial.map(rating => locked.find(row => row.playerId === rating.playerId)!);
+      const update = rate(current);
+      for (const rating of update.ratings) {
+        await tx.update(ratings)
+          .set({
+            rating: rating.rating,
+            deviation: rating.deviation,
+            volatility: rating.volatility,
+            gamesPlayed: rating.gamesPlayed,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(ratings.playerId, rating.playerId), eq(ratings.category, rating.category)));
+      }
+      return tx.insert(ratingChanges).values(update.changes).returning();
+    });
+  }
 }
 
 // In-memory storage implementation
@@ -127,6 +402,9 @@ export class MemStorage implements IStorage {
   private games = new Map<string, Game>();
   private moves = new Map<string, Move[]>();
   private analyses = new Map<string, Analysis>();
+  private analysisJobs = new Map<string, AnalysisJob>();
+  private ratings = new Map<string, Rating>(); // keyed by `${playerId}/${category}`
+  private ratingChanges: RatingChange[] = [];
 
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -157,15 +435,26 @@ export class MemStorage implements IStorage {
       blackPlayerId: game.blackPlayerId || null,
       guestId: game.guestId || null,
       isGuestGame: game.isGuestGame || false,
+      opponentType: game.opponentType || 'ai',
+      inviteCode: game.inviteCode || null,
+      drawOfferedBy: game.drawOfferedBy || null,
       status: game.status,
       result: game.result || null,
+      termination: game.termination || null,
       playerColor: game.playerColor,
       aiDifficulty: game.aiDifficulty || 1600,
       currentFen: game.currentFen,
       pgn: game.pgn || '',
       timeControl: game.timeControl || null,
+      timeControlSpec: (game.timeControlSpec as Game['timeControlSpec']) || null,
       whiteTimeLeft: game.whiteTimeLeft || null,
       blackTimeLeft: game.blackTimeLeft || null,
+      rated: game.rated || false,
+      takebackPolicy: game.takebackPolicy || 'allowed',
+      takebackLimit: game.takebackLimit ?? null,
+      takebacksUsed: game.takebacksUsed || 0,
+      hintsUsed: game.hintsUsed || 0,
+      opening: game.opening || null,
       createdAt: new Date(),
       updatedAt: new Date(),
       lastMoveAt: new Date(),
@@ -178,6 +467,10 @@ export class MemStorage implements IStorage {
     return this.games.get(id);
   }
 
+  async getGameByInviteCode(inviteCode: string): Promise<Game | undefined> {
+    return Array.from(this.games.values()).find(game => game.inviteCode === inviteCode);
+  }
+
   async updateGame(id: string, updates: Partial<Game>): Promise<Game> {
     const game = this.games.get(id);
     if (!game) throw new Error('Game not found');
@@ -198,6 +491,43 @@ export class MemStorage implements IStorage {
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
 
+  async listUserGames(userId: string, query: GameListQuery): Promise<GameListPage> {
+    const direction = query.sort === 'newest' ? -1 : 1;
+    const compare = (a: Game, b: Game) =>
+      ((a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)) * direction;
+    const cursor = query.cursor
+      ? { createdAt: new Date(query.cursor.createdAt), id: query.cursor.id } as Game
+      : undefined;
+    const opening = query.opening?.toLowerCase();
+
+    const matching = Array.from(this.games.values()).filter(game => {
+      const color = game.whitePlayerId === userId ? 'white' : game.blackPlayerId === userId ? 'black' : null;
+      if (!color) return false;
+      if (query.color && color !== query.color) return false;
+      if (query.result) {
+        const won = (color === 'white' && game.result === '1-0') || (color === 'black' && game.result === '0-1');
+        const lost = (color === 'white' && game.result === '0-1') || (color === 'black' && game.result === '1-0');
+        const drawn = game.result === '1/2-1/2';
+        if (query.result === 'win' ? !won : query.result === 'loss' ? !lost : !drawn) return false;
+      }
+      if (query.opponent && game.opponentType !== query.opponent) return false;
+      if (query.difficulty !== undefined && (game.opponentType !== 'ai' || game.aiDifficulty !== query.difficulty)) return false;
+      const createdAt = game.createdAt?.getTime() ?? 0;
+      if (query.from && createdAt < query.from.getTime()) return false;
+      if (query.to && createdAt > query.to.getTime()) return false;
+      if (opening && !game.opening?.toLowerCase().includes(opening)) return false;
+      if (query.analyzed !== undefined && this.analyses.has(game.id) !== query.analyzed) return false;
+      if (cursor && compare(game, cursor) <= 0) return false;
+      return true;
+    }).sort(compare);
+
+    const page = matching.slice(0, query.limit);
+    return {
+      games: page.map(game => ({ ...game, analyzed: this.analyses.has(game.id) })),
+      nextCursor: matching.length > query.limit ? getGameListCursor(page[page.length - 1]) : null,
+    };
+  }
+
   // Move operations
   async addMove(move: InsertMove): Promise<Move> {
     const newMove: Move = {
@@ -211,7 +541,9 @@ export class MemStorage implements IStorage {
       evaluation: move.evaluation || null,
       bestMove: move.bestMove || null,
       classification: move.classification || null,
+      accuracy: move.accuracy ?? null,
       timeSpent: move.timeSpent || null,
+      timeLeft: move.timeLeft ?? null,
       createdAt: new Date(),
     };
     const gameMoves = this.moves.get(move.gameId) || [];
@@ -224,6 +556,11 @@ export class MemStorage implements IStorage {
     return this.moves.get(gameId) || [];
   }
 
+  async deleteLastMoves(gameId: string, count: number): Promise<Move[]> {
+    const gameMoves = this.moves.get(gameId) || [];
+    return gameMoves.splice(Math.max(0, gameMoves.length - count), count);
+  }
+
   // Analysis operations
   async createAnalysis(analysis: InsertAnalysis): Promise<Analysis> {
     const newAnalysis: Analysis = {
@@ -245,6 +582,116 @@ export class MemStorage implements IStorage {
   async getGameAnalysis(gameId: string): Promise<Analysis | undefined> {
     return this.analyses.get(gameId);
   }
+
+  async getGamesAnalyses(gameIds: string[]): Promise<Analysis[]> {
+    return gameIds
+      .map(gameId => this.analyses.get(gameId))
+      .filter((analysis): analysis is Analysis => analysis !== undefined);
+  }
+
+  async saveAnalysisResults(analysis: InsertAnalysis, moveUpdates: MoveAnalysisUpdate[]): Promise<Analysis> {
+    const gameMoves = this.moves.get(analysis.gameId) || [];
+    for (const { moveId, ...update } of moveUpdates) {
+      const move = gameMoves.find(candidate => candidate.id === moveId);
+      if (move) Object.assign(move, update);
+    }
+    return this.createAnalysis(analysis);
+  }
+
+  // Analysis job operations
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const newJob: AnalysisJob = {
+      id: nanoid(),
+      gameId: job.gameId,
+      requestedBy: job.requestedBy,
+      depth: job.depth,
+      status: job.status,
+      pliesDone: job.pliesDone ?? 0,
+      totalPlies: job.totalPlies,
+      error: job.error ?? null,
+      createdAt: new Date(),
+      startedAt: job.startedAt ?? null,
+      finishedAt: job.finishedAt ?? null,
+    };
+    this.analysisJobs.set(newJob.id, newJob);
+    return newJob;
+  }
+
+  async getAnalysisJob(id: string): Promise<AnalysisJob | undefined> {
+    return this.analysisJobs.get(id);
+  }
+
+  async getLatestAnalysisJob(gameId: string): Promise<AnalysisJob | undefined> {
+    // Jobs are kept in the order they were created
+    return Array.from(this.analysisJobs.values()).filter(job => job.gameId === gameId).pop();
+  }
+
+  async getUnfinishedAnalysisJobs(): Promise<AnalysisJob[]> {
+    return Array.from(this.analysisJobs.values()).filter(job => job.status === 'queued' || job.status === 'running');
+  }
+
+  async updateAnalysisJob(id: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob> {
+    const job = this.analysisJobs.get(id);
+    if (!job) throw new Error('Analysis job not found');
+    const updatedJob = { ...job, ...updates };
+    this.analysisJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  // Position evaluation cache: the engine pool's in-memory cache already holds everything kept here
+  async getPositionEvaluation(): Promise<PositionEvaluation | undefined> {
+    return undefined;
+  }
+
+  async savePositionEvaluation(): Promise<void> {}
+
+  // Rating operations
+  async getRating(playerId: string, category: string): Promise<Rating | undefined> {
+    return this.ratings.get(`${playerId}/${category}`);
+  }
+
+  async getPlayerRatings(playerId: string): Promise<Rating[]> {
+    return Array.from(this.ratings.values()).filter(rating => rating.playerId === playerId);
+  }
+
+  async getLeaderboard(category: string, options: LeaderboardOptions): Promise<{ total: number; entries: LeaderboardRow[] }> {
+    const rows = Array.from(this.ratings.values())
+      .filter(rating => rating.category === category && rating.deviation <= options.maxDeviation)
+      .map(rating => ({ rating, user: this.users.get(rating.playerId) }))
+      .filter((row): row is LeaderboardRow => row.user !== undefined)
+      .sort((a, b) => b.rating.rating - a.rating.rating || b.rating.gamesPlayed - a.rating.gamesPlayed);
+    return {
+      total: rows.length,
+      entries: rows.slice(options.offset, options.offset + options.limit),
+    };
+  }
+
+  async getGameRatingChanges(gameId: string): Promise<RatingChange[]> {
+    return this.ratingChanges.filter(change => change.gameId === gameId);
+  }
+
+  // Nothing here awaits, so no other game can get in between reading and saving the ratings
+  async recordRatedGame(gameId: string, initial: InsertRating[], rate: RateGame): Promise<RatingChange[]> {
+    const existing = this.ratingChanges.filter(change => change.gameId === gameId);
+    if (existing.length > 0) return existing;
+
+    const current = initial.map(rating => this.ratings.get(`${rating.playerId}/${rating.category}`) ?? {
+      ...rating,
+      gamesPlayed: 0,
+      updatedAt: new Date(),
+    });
+    const { ratings: newRatings, changes } = rate(current);
+    for (const rating of newRatings) {
+      this.ratings.set(`${rating.playerId}/${rating.category}`, {
+        ...rating,
+        gamesPlayed: rating.gamesPlayed ?? 0,
+        updatedAt: new Date(),
+      });
+    }
+    const recorded = changes.map(change => ({ ...change, id: nanoid(), createdAt: new Date() }));
+    this.ratingChanges.push(...recorded);
+    return recorded;
+  }
 }
 
 // Use database storage if available, otherwise use in-memory storage
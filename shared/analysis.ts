@@ -0,0 +1,106 @@
+import { z } from "zod";
+import type { PlayerColor } from "./players";
+import type { Analysis, Move } from "./schema";
+
+// How a move compares with the engine's choice. 'book' moves are known opening theory,
+// 'brilliant' ones are sound sacrifices, 'great' ones the only good move in the position,
+// and a 'miss' lets a forced mate or a winning position slip without losing the game
+export type MoveClassification =
+  | "book"
+  | "brilliant"
+  | "great"
+  | "best"
+  | "excellent"
+  | "good"
+  | "inaccuracy"
+  | "mistake"
+  | "miss"
+  | "blunder";
+
+export type AnalysisJobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export const DEFAULT_ANALYSIS_DEPTH = 15;
+
+// Deeper searches find more but take longer for every ply of the game
+export const analysisRequestSchema = z.object({
+  depth: z.number().int().min(8).max(22).default(DEFAULT_ANALYSIS_DEPTH),
+});
+
+export type AnalysisRequest = z.infer<typeof analysisRequestSchema>;
+
+export function isAnalysisJobFinished(status: string): boolean {
+  return status === "completed" || status === "failed" || status === "cancelled";
+}
+
+// One point of analyses.evaluationGraph: the position after a ply, from White's side
+export interface EvaluationPoint {
+  move: number; // ply, 1 for White's first move
+  evaluation: number; // pawns, positive when White is better
+  mate?: number; // moves to a forced mate, positive when White mates; 0 when this move mated
+  side: "w" | "b"; // who played the move
+  san: string;
+  classification: MoveClassification;
+  accuracy: number;
+}
+
+// An evaluation from White's side
+export type WhiteEvaluation = Pick<EvaluationPoint, "evaluation" | "mate">;
+
+/**
+ * The text kept in moves.evaluation: pawns such as "0.45" or "-1.20", or "#3"
+ * and "#-3" for a forced mate in that many moves, White mating when positive.
+ * "#0" means the move mated.
+ */
+export function encodeEvaluation({ evaluation, mate }: WhiteEvaluation): string {
+  return mate !== undefined ? `#${mate}` : evaluation.toFixed(2);
+}
+
+export function decodeEvaluation(text: string): WhiteEvaluation | null {
+  if (text.startsWith("#")) {
+    const mate = parseInt(text.slice(1), 10);
+    return Number.isNaN(mate) ? null : { evaluation: 0, mate };
+  }
+  const evaluation = parseFloat(text);
+  return Number.isNaN(evaluation) ? null : { evaluation };
+}
+
+/**
+ * Short human-readable form, e.g. "+0.45", "-M3" or "Checkmate".
+ */
+export function formatEvaluation({ evaluation, mate }: WhiteEvaluation): string {
+  if (mate !== undefined) {
+    if (mate === 0) return "Checkmate";
+    return `${mate > 0 ? "" : "-"}M${Math.abs(mate)}`;
+  }
+  return `${evaluation > 0 ? "+" : ""}${evaluation.toFixed(2)}`;
+}
+
+// What analysis found for one ply of a game
+export interface AnalyzedMove {
+  moveNumber: number;
+  side: PlayerColor;
+  san: string;
+  uci: string;
+  fen: string;
+  evaluation: string; // from White's side, see encodeEvaluation
+  bestMove: string;
+  classification: MoveClassification;
+  accuracy: number;
+}
+
+// GET /api/games/:id/analysis: the stored summary, if the game was analysed, and every move with its results
+export interface StoredGameAnalysis {
+  analysis: (Omit<Analysis, "evaluationGraph"> & { evaluationGraph: EvaluationPoint[] | null }) | null;
+  moves: Move[];
+}
+
+// The result of analysing a whole game
+export interface GameAnalysis {
+  moves: AnalyzedMove[];
+  blunders: number;
+  mistakes: number;
+  inaccuracies: number;
+  whiteAccuracy: number | null; // 0-100; null when the side made no moves
+  blackAccuracy: number | null;
+  evaluationGraph: EvaluationPoint[];
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import type { Game } from "./schema";
+
+// Query strings carry booleans as text
+const booleanParam = z.enum(["true", "false"]).transform(value => value === "true");
+
+// Where a page ends: the last game's creation time (ms) and id, which breaks ties
+export interface GameListCursor {
+  createdAt: number;
+  id: string;
+}
+
+const cursorParam = z.string().transform((value, ctx) => {
+  const match = /^(\d+)_(.+)$/.exec(value);
+  if (!match) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return { createdAt: Number(match[1]), id: match[2] } as GameListCursor;
+});
+
+export function getGameListCursor(game: Pick<Game, "id" | "createdAt">): string {
+  return `${game.createdAt?.getTime() ?? 0}_${game.id}`;
+}
+
+// Filters for a player's game history; results and colours are from the player's side
+export const gameListQuerySchema = z.object({
+  result: z.enum(["win", "draw", "loss"]).optional(),
+  color: z.enum(["white", "black"]).optional(),
+  opponent: z.enum(["ai", "human"]).optional(),
+  difficulty: z.coerce.number().int().optional(), // AnveshAI's difficulty; implies opponent=ai
+  from: z.coerce.date().optional(), // games created at or after
+  to: z.coerce.date().optional(), // games created at or before
+  opening: z.string().trim().min(1).max(100).optional(), // part of the opening's name, any case
+  analyzed: booleanParam.optional(),
+  sort: z.enum(["newest", "oldest"]).default("newest"),
+  cursor: cursorParam.optional(), // nextCursor from the previous page
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type GameListQuery = z.infer<typeof gameListQuerySchema>;
+
+export type GameListItem = Game & { analyzed: boolean };
+
+export interface GameListPage {
+  games: GameListItem[];
+  nextCursor: string | null; // null on the last page
+}
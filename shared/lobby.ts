@@ -0,0 +1,27 @@
+import { z } from "zod";
+import type { TimeControl, TimeControlCategory } from "./timeControl";
+
+export const seekColorSchema = z.enum(["white", "black", "random"]);
+
+// What a player posts to the lobby; the time control is a preset id or a full control
+export const seekRequestSchema = z.object({
+  timeControl: z.unknown(),
+  color: seekColorSchema.default("random"),
+  rated: z.boolean().default(false),
+});
+
+export type SeekColor = z.infer<typeof seekColorSchema>;
+export type SeekRequest = z.infer<typeof seekRequestSchema>;
+
+// An open offer to play, waiting in the lobby for someone to accept it
+export interface Seek {
+  id: string;
+  userId: string;
+  name: string; // how the seeker is shown in the lobby
+  timeControl: TimeControl;
+  category: TimeControlCategory;
+  color: SeekColor; // the colour the seeker wants to play
+  rated: boolean;
+  createdAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+}
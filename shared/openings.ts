@@ -0,0 +1,147 @@
+export interface Opening {
+  eco: string;
+  name: string;
+  moves: string; // SAN from the starting position, space separated
+}
+
+// Common openings, enough to name most games; the longest matching line wins
+export const OPENINGS: Opening[] = [
+  { eco: "B00", name: "King's Pawn Opening", moves: "e4" },
+  { eco: "C20", name: "King's Pawn Game", moves: "e4 e5" },
+  { eco: "C40", name: "King's Knight Opening", moves: "e4 e5 Nf3" },
+  { eco: "C44", name: "King's Knight Opening: Normal Variation", moves: "e4 e5 Nf3 Nc6" },
+  { eco: "C60", name: "Ruy Lopez", moves: "e4 e5 Nf3 Nc6 Bb5" },
+  { eco: "C68", name: "Ruy Lopez: Exchange Variation", moves: "e4 e5 Nf3 Nc6 Bb5 a6 Bxc6" },
+  { eco: "C65", name: "Ruy Lopez: Berlin Defense", moves: "e4 e5 Nf3 Nc6 Bb5 Nf6" },
+  { eco: "C70", name: "Ruy Lopez: Morphy Defense", moves: "e4 e5 Nf3 Nc6 Bb5 a6 Ba4" },
+  { eco: "C50", name: "Italian Game", moves: "e4 e5 Nf3 Nc6 Bc4" },
+  { eco: "C50", name: "Italian Game: Giuoco Piano", moves: "e4 e5 Nf3 Nc6 Bc4 Bc5" },
+  { eco: "C51", name: "Italian Game: Evans Gambit", moves: "e4 e5 Nf3 Nc6 Bc4 Bc5 b4" },
+  { eco: "C55", name: "Italian Game: Two Knights Defense", moves: "e4 e5 Nf3 Nc6 Bc4 Nf6" },
+  { eco: "C57", name: "Italian Game: Two Knights Defense, Fried Liver Attack", moves: "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 d5 exd5 Nxd5 Nxf7" },
+  { eco: "C45", name: "Scotch Game", moves: "e4 e5 Nf3 Nc6 d4" },
+  { eco: "C46", name: "Three Knights Opening", moves: "e4 e5 Nf3 Nc6 Nc3" },
+  { eco: "C47", name: "Four Knights Game", moves: "e4 e5 Nf3 Nc6 Nc3 Nf6" },
+  { eco: "C44", name: "Ponziani Opening", moves: "e4 e5 Nf3 Nc6 c3" },
+  { eco: "C41", name: "Philidor Defense", moves: "e4 e5 Nf3 d6" },
+  { eco: "C42", name: "Petrov's Defense", moves: "e4 e5 Nf3 Nf6" },
+  { eco: "C40", name: "Latvian Gambit", moves: "e4 e5 Nf3 f5" },
+  { eco: "C23", name: "Bishop's Opening", moves: "e4 e5 Bc4" },
+  { eco: "C25", name: "Vienna Game", moves: "e4 e5 Nc3" },
+  { eco: "C30", name: "King's Gambit", moves: "e4 e5 f4" },
+  { eco: "C33", name: "King's Gambit Accepted", moves: "e4 e5 f4 exf4" },
+  { eco: "C21", name: "Center Game", moves: "e4 e5 d4 exd4" },
+  { eco: "B20", name: "Sicilian Defense", moves: "e4 c5" },
+  { eco: "B27", name: "Sicilian Defense", moves: "e4 c5 Nf3" },
+  { eco: "B50", name: "Sicilian Defense", moves: "e4 c5 Nf3 d6" },
+  { eco: "B90", name: "Sicilian Defense: Najdorf Variation", moves: "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 a6" },
+  { eco: "B70", name: "Sicilian Defense: Dragon Variation", moves: "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6" },
+  { eco: "B30", name: "Sicilian Defense: Old Sicilian", moves: "e4 c5 Nf3 Nc6" },
+  { eco: "B40", name: "Sicilian Defense: French Variation", moves: "e4 c5 Nf3 e6" },
+  { eco: "B22", name: "Sicilian Defense: Alapin Variation", moves: "e4 c5 c3" },
+  { eco: "B23", name: "Sicilian Defense: Closed", moves: "e4 c5 Nc3" },
+  { eco: "B21", name: "Sicilian Defense: Smith-Morra Gambit", moves: "e4 c5 d4 cxd4 c3" },
+  { eco: "C00", name: "French Defense", moves: "e4 e6" },
+  { eco: "C01", name: "French Defense: Exchange Variation", moves: "e4 e6 d4 d5 exd5" },
+  { eco: "C02", name: "French Defense: Advance Variation", moves: "e4 e6 d4 d5 e5" },
+  { eco: "C03", name: "French Defense: Tarrasch Variation", moves: "e4 e6 d4 d5 Nd2" },
+  { eco: "C10", name: "French Defense: Paulsen Variation", moves: "e4 e6 d4 d5 Nc3" },
+  { eco: "C15", name: "French Defense: Winawer Variation", moves: "e4 e6 d4 d5 Nc3 Bb4" },
+  { eco: "B10", name: "Caro-Kann Defense", moves: "e4 c6" },
+  { eco: "B12", name: "Caro-Kann Defense: Advance Variation", moves: "e4 c6 d4 d5 e5" },
+  { eco: "B13", name: "Caro-Kann Defense: Exchange Variation", moves: "e4 c6 d4 d5 exd5" },
+  { eco: "B15", name: "Caro-Kann Defense: Main Line", moves: "e4 c6 d4 d5 Nc3" },
+  { eco: "B01", name: "Scandinavian Defense", moves: "e4 d5" },
+  { eco: "B01", name: "Scandinavian Defense: Main Line", moves: "e4 d5 exd5 Qxd5 Nc3 Qa5" },
+  { eco: "B02", name: "Alekhine Defense", moves: "e4 Nf6" },
+  { eco: "B07", name: "Pirc Defense", moves: "e4 d6 d4 Nf6 Nc3 g6" },
+  { eco: "B06", name: "Modern Defense", moves: "e4 g6" },
+  { eco: "B00", name: "Nimzowitsch Defense", moves: "e4 Nc6" },
+  { eco: "A40", name: "Queen's Pawn Opening", moves: "d4" },
+  { eco: "D00", name: "Queen's Pawn Game", moves: "d4 d5" },
+  { eco: "D02", name: "Queen's Pawn Game: London System", moves: "d4 d5 Nf3 Nf6 Bf4" },
+  { eco: "D02", name: "Queen's Pawn Game: London System", moves: "d4 d5 Bf4" },
+  { eco: "A46", name: "Queen's Pawn Game: London System", moves: "d4 Nf6 Nf3 e6 Bf4" },
+  { eco: "D06", name: "Queen's Gambit", moves: "d4 d5 c4" },
+  { eco: "D20", name: "Queen's Gambit Accepted", moves: "d4 d5 c4 dxc4" },
+  { eco: "D30", name: "Queen's Gambit Declined", moves: "d4 d5 c4 e6" },
+  { eco: "D10", name: "Slav Defense", moves: "d4 d5 c4 c6" },
+  { eco: "D43", name: "Semi-Slav Defense", moves: "d4 d5 c4 c6 Nf3 Nf6 Nc3 e6" },
+  { eco: "D08", name: "Queen's Gambit: Albin Countergambit", moves: "d4 d5 c4 e5" },
+  { eco: "A45", name: "Indian Defense", moves: "d4 Nf6" },
+  { eco: "E60", name: "King's Indian Defense", moves: "d4 Nf6 c4 g6" },
+  { eco: "E90", name: "King's Indian Defense: Normal Variation", moves: "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6 Nf3" },
+  { eco: "D70", name: "Grünfeld Defense", moves: "d4 Nf6 c4 g6 Nc3 d5" },
+  { eco: "E20", name: "Nimzo-Indian Defense", moves: "d4 Nf6 c4 e6 Nc3 Bb4" },
+  { eco: "E12", name: "Queen's Indian Defense", moves: "d4 Nf6 c4 e6 Nf3 b6" },
+  { eco: "E00", name: "Catalan Opening", moves: "d4 Nf6 c4 e6 g3" },
+  { eco: "A57", name: "Benko Gambit", moves: "d4 Nf6 c4 c5 d5 b5" },
+  { eco: "A60", name: "Benoni Defense", moves: "d4 Nf6 c4 c5 d5 e6" },
+  { eco: "A80", name: "Dutch Defense", moves: "d4 f5" },
+  { eco: "A10", name: "English Opening", moves: "c4" },
+  { eco: "A20", name: "English Opening: King's English Variation", moves: "c4 e5" },
+  { eco: "A30", name: "English Opening: Symmetrical Variation", moves: "c4 c5" },
+  { eco: "A04", name: "Zukertort Opening", moves: "Nf3" },
+  { eco: "A05", name: "Réti Opening", moves: "Nf3 Nf6" },
+  { eco: "A09", name: "Réti Opening", moves: "Nf3 d5 c4" },
+  { eco: "A07", name: "King's Indian Attack", moves: "Nf3 d5 g3" },
+  { eco: "A02", name: "Bird's Opening", moves: "f4" },
+  { eco: "A01", name: "Nimzo-Larsen Attack", moves: "b3" },
+  { eco: "A00", name: "Polish Opening", moves: "b4" },
+  { eco: "A00", name: "Hungarian Opening", moves: "g3" },
+];
+
+// Openings are named from at most this many plies
+const MAX_OPENING_PLIES = Math.max(...OPENINGS.map(opening => opening.moves.split(" ").length));
+
+/**
+ * The moves of a PGN's movetext in SAN, leaving out headers, comments,
+ * variations, move numbers and the result.
+ */
+export function getPgnMoves(pgn: string): string[] {
+  const movetext = pgn
+    .replace(/\[[^\]]*\]/g, " ") // headers
+    .replace(/\{[^}]*\}/g, " ") // comments
+    .replace(/;[^\n]*/g, " ");
+  // Variations can nest, so strip the innermost ones until none are left
+  let withoutVariations = movetext;
+  let previous;
+  do {
+    previous = withoutVariations;
+    withoutVariations = withoutVariations.replace(/\([^()]*\)/g, " ");
+  } while (withoutVariations !== previous);
+
+  return withoutVariations
+    .split(/\s+/)
+    .map(token => token.replace(/^\d+\.(\.\.)?/, "").replace(/[!?]+$/, ""))
+    .filter(token => token && !/^\$\d+$/.test(token) && !["1-0", "0-1", "1/2-1/2", "*"].includes(token));
+}
+
+/**
+ * The opening a game started with, from its moves in SAN, or null if it left
+ * the known lines at once.
+ */
+export function identifyOpening(sanMoves: string[]): Opening | null {
+  const played = sanMoves.slice(0, MAX_OPENING_PLIES).map(move => move.replace(/[+#]$/, ""));
+  let best: Opening | null = null;
+  let bestLength = 0;
+  for (const opening of OPENINGS) {
+    const line = opening.moves.split(" ");
+    if (line.length <= bestLength || line.length > played.length) continue;
+    if (line.every((move, i) => move === played[i])) {
+      best = opening;
+      bestLength = line.length;
+    }
+  }
+  return best;
+}
+
+// Whether the moves so far, in SAN, still follow one of the known lines
+export function isBookLine(sanMoves: string[]): boolean {
+  if (sanMoves.length === 0 || sanMoves.length > MAX_OPENING_PLIES) return false;
+  const played = sanMoves.map(move => move.replace(/[+#]$/, ""));
+  return OPENINGS.some(opening => {
+    const line = opening.moves.split(" ");
+    return played.length <= line.length && played.every((move, i) => move === line[i]);
+  });
+}
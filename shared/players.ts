@@ -0,0 +1,50 @@
+import { z } from "zod";
+import type { Game } from "./schema";
+
+export const playerColorSchema = z.enum(["white", "black"]);
+
+export type PlayerColor = z.infer<typeof playerColorSchema>;
+
+// Stands in for a user id in the seat AnveshAI plays
+export const AI_PLAYER_ID = "anveshai";
+
+// The strengths AnveshAI plays at; each is rated as a separate opponent
+export const AI_DIFFICULTIES = [800, 1200, 1600, 2000, 2400] as const;
+export const DEFAULT_AI_DIFFICULTY = 1600;
+
+export const aiDifficultySchema = z.number().int()
+  .refine(difficulty => (AI_DIFFICULTIES as readonly number[]).includes(difficulty), {
+    message: `AI difficulty must be one of ${AI_DIFFICULTIES.join(", ")}`,
+  })
+  .default(DEFAULT_AI_DIFFICULTY);
+
+export function isAIGame(game: Pick<Game, "opponentType">): boolean {
+  return game.opponentType !== "human";
+}
+
+export function getOpponentColor(color: PlayerColor): PlayerColor {
+  return color === "white" ? "black" : "white";
+}
+
+/**
+ * The colour a signed-in user (by id) or a guest plays in a game, or null for
+ * anyone else. A game has at most one guest, who sits in the seat without a
+ * user; leaving out `guestId` means "whichever guest this game has", which is
+ * what a guest's own client needs.
+ */
+export function getPlayerColor(
+  game: Pick<Game, "whitePlayerId" | "blackPlayerId" | "guestId">,
+  userId: string | null,
+  guestId?: string,
+): PlayerColor | null {
+  if (userId) {
+    if (game.whitePlayerId === userId) return "white";
+    if (game.blackPlayerId === userId) return "black";
+    return null;
+  }
+
+  if (!game.guestId || (guestId !== undefined && game.guestId !== guestId)) return null;
+  if (!game.whitePlayerId) return "white";
+  if (!game.blackPlayerId) return "black";
+  return null;
+}
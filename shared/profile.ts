@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { timeControlCategorySchema, type TimeControlCategory } from "./timeControl";
+import type { PlayerColor } from "./players";
+import type { Rating } from "./schema";
+
+// Ratings with a deviation above this are still provisional and stay off the leaderboard
+export const PROVISIONAL_DEVIATION = 110;
+
+export const leaderboardQuerySchema = z.object({
+  category: timeControlCategorySchema.default("blitz"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type LeaderboardQuery = z.infer<typeof leaderboardQuerySchema>;
+
+// What another visitor may see of a user; never their email
+export interface PublicPlayer {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  profileImageUrl: string | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: PublicPlayer;
+  rating: number;
+  deviation: number;
+  gamesPlayed: number;
+}
+
+export interface LeaderboardPage {
+  category: TimeControlCategory;
+  page: number;
+  pageSize: number;
+  total: number;
+  entries: LeaderboardEntry[];
+}
+
+export type GameOutcome = "win" | "draw" | "loss";
+
+export interface ResultCounts {
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+export interface OpeningStats extends ResultCounts {
+  eco: string;
+  name: string;
+  games: number;
+}
+
+export interface ProfileGame {
+  id: string;
+  color: PlayerColor;
+  opponentName: string;
+  opponentType: "ai" | "human";
+  result: string | null;
+  outcome: GameOutcome | null; // null while the game is still going
+  termination: string | null;
+  rated: boolean;
+  category: TimeControlCategory;
+  opening: string | null;
+  createdAt: string | null;
+}
+
+export interface PlayerProfile {
+  player: PublicPlayer;
+  memberSince: string | null;
+  ratings: Rating[];
+  totals: ResultCounts;
+  byColor: Record<PlayerColor, ResultCounts>;
+  byOpponent: Record<"ai" | "human", ResultCounts>;
+  favouriteOpenings: OpeningStats[];
+  recentGames: ProfileGame[];
+  averageAccuracy: number | null; // over analysed games, null before any analysis
+  analysedGames: number;
+}
+
+export function getPublicName(player: PublicPlayer): string {
+  return [player.firstName, player.lastName].filter(Boolean).join(" ") || "Player";
+}
@@ -1,17 +1,21 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   jsonb,
   pgTable,
   timestamp,
   varchar,
   text,
   integer,
+  real,
   boolean,
   uuid,
+  primaryKey,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { TimeControl } from "./timeControl";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -40,18 +44,29 @@ export const users = pgTable("users", {
 export const games = pgTable("games", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   whitePlayerId: varchar("white_player_id").references(() => users.id), // nullable for guest users
-  blackPlayerId: varchar("black_player_id").references(() => users.id), // Always AnveshAI for AI games, nullable for guest
+  blackPlayerId: varchar("black_player_id").references(() => users.id), // AnveshAI's seat in AI games, nullable for guest
   guestId: varchar("guest_id"), // temporary session ID for guest users
   isGuestGame: boolean("is_guest_game").default(false),
-  status: varchar("status").notNull(), // 'active', 'completed', 'abandoned'
+  opponentType: varchar("opponent_type").notNull().default("ai"), // 'ai' or 'human'
+  inviteCode: varchar("invite_code").unique(), // human games: lets the invited player take the empty seat
+  drawOfferedBy: varchar("draw_offered_by"), // human games: 'white' or 'black' while a draw offer is open
+  status: varchar("status").notNull(), // 'waiting' (for an opponent), 'active', 'completed', 'abandoned'
   result: varchar("result"), // '1-0', '0-1', '1/2-1/2', null for ongoing
+  termination: varchar("termination"), // 'checkmate', 'resignation', 'timeout', 'draw_agreement', ... null for ongoing
   playerColor: varchar("player_color").notNull(), // 'white' or 'black'
   aiDifficulty: integer("ai_difficulty").notNull().default(1600),
   currentFen: text("current_fen").notNull(),
   pgn: text("pgn").notNull().default(""),
-  timeControl: integer("time_control").default(900), // seconds
-  whiteTimeLeft: integer("white_time_left").default(900),
-  blackTimeLeft: integer("black_time_left").default(900),
+  timeControl: integer("time_control").default(900), // seconds on the clock at the start
+  timeControlSpec: jsonb("time_control_spec").$type<TimeControl>(), // stages, increment and delay; null for a plain timeControl clock
+  whiteTimeLeft: real("white_time_left").default(900), // seconds
+  blackTimeLeft: real("black_time_left").default(900), // seconds
+  rated: boolean("rated").default(false), // rated games never allow takebacks or hints
+  takebackPolicy: varchar("takeback_policy").notNull().default("allowed"), // 'allowed', 'limited' or 'disabled'
+  takebackLimit: integer("takeback_limit"), // takebacks per game when the policy is 'limited'
+  takebacksUsed: integer("takebacks_used").notNull().default(0),
+  hintsUsed: integer("hints_used").notNull().default(0), // positions the player asked for an engine hint in
+  opening: varchar("opening"), // named from the moves when the game ends, see shared/openings.ts
   lastMoveAt: timestamp("last_move_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -66,10 +81,12 @@ export const moves = pgTable("moves", {
   san: varchar("san").notNull(), // Standard Algebraic Notation
   uci: varchar("uci").notNull(), // Universal Chess Interface
   fen: text("fen").notNull(), // Position after this move
-  evaluation: text("evaluation"), // Stockfish evaluation
+  evaluation: text("evaluation"), // from White's side, e.g. "0.45" or "#-3"; see encodeEvaluation in shared/analysis.ts
   bestMove: varchar("best_move"), // Engine's best move suggestion
-  classification: varchar("classification"), // 'book', 'best', 'excellent', 'good', 'inaccuracy', 'mistake', 'blunder'
+  classification: varchar("classification"), // a MoveClassification, see shared/analysis.ts
+  accuracy: real("accuracy"), // 0-100 for the mover, set by analysis
   timeSpent: integer("time_spent"), // milliseconds
+  timeLeft: real("time_left"), // seconds on the mover's clock after this move, null when untimed
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -83,10 +100,80 @@ export const analyses = pgTable("analyses", {
   mistakes: integer("mistakes").default(0),
   inaccuracies: integer("inaccuracies").default(0),
   openingName: varchar("opening_name"),
-  evaluationGraph: jsonb("evaluation_graph"), // Array of evaluation points
+  evaluationGraph: jsonb("evaluation_graph"), // EvaluationPoint[], see shared/analysis.ts
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Engine analyses run in the background, one row per request
+export const analysisJobs = pgTable(
+  "analysis_jobs",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    gameId: uuid("game_id").notNull().references(() => games.id),
+    requestedBy: varchar("requested_by").notNull().references(() => users.id),
+    depth: integer("depth").notNull(),
+    status: varchar("status").notNull(), // 'queued', 'running', 'completed', 'failed' or 'cancelled'
+    pliesDone: integer("plies_done").notNull().default(0),
+    totalPlies: integer("total_plies").notNull(),
+    error: text("error"), // why a failed job failed
+    createdAt: timestamp("created_at").defaultNow(),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [index("IDX_analysis_jobs_game").on(table.gameId)],
+);
+
+// Engine evaluations of positions, shared by every analysis; see server/services/evaluationCache.ts
+export const positionEvaluations = pgTable(
+  "position_evaluations",
+  {
+    fen: varchar("fen").notNull(), // normalised: placement, side to move, castling and en passant only
+    depth: integer("depth").notNull(),
+    multiPv: integer("multi_pv").notNull(),
+    evaluation: jsonb("evaluation").notNull(), // the engine's EngineEvaluation
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.fen, table.depth, table.multiPv] })],
+);
+
+// Glicko-2 ratings, one per player and time control category. AnveshAI is rated
+// separately at each difficulty, under ids like "anveshai:1600"
+export const ratings = pgTable(
+  "ratings",
+  {
+    playerId: varchar("player_id").notNull(), // a user id, or AnveshAI at one difficulty
+    category: varchar("category").notNull(), // 'bullet', 'blitz', 'rapid' or 'classical'
+    rating: real("rating").notNull(),
+    deviation: real("deviation").notNull(), // RD; how uncertain the rating is
+    volatility: real("volatility").notNull(), // how erratic the player's results are
+    gamesPlayed: integer("games_played").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.playerId, table.category] })],
+);
+
+// How each rated game moved its players' ratings
+export const ratingChanges = pgTable(
+  "rating_changes",
+  {
+    id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+    gameId: uuid("game_id").notNull().references(() => games.id),
+    playerId: varchar("player_id").notNull(),
+    color: varchar("color").notNull(), // 'white' or 'black'
+    category: varchar("category").notNull(),
+    ratingBefore: real("rating_before").notNull(),
+    ratingAfter: real("rating_after").notNull(),
+    deviationBefore: real("deviation_before").notNull(),
+    deviationAfter: real("deviation_after").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    // A game can only move each player's rating once
+    uniqueIndex("IDX_rating_changes_game_player").on(table.gameId, table.playerId),
+    index("IDX_rating_changes_player").on(table.playerId),
+  ],
+);
+
 // Create insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
@@ -119,3 +206,11 @@ export type InsertMove = z.infer<typeof insertMoveSchema>;
 export type Move = typeof moves.$inferSelect;
 export type InsertAnalysis = z.infer<typeof insertAnalysisSchema>;
 export type Analysis = typeof analyses.$inferSelect;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type InsertAnalysisJob = typeof analysisJobs.$inferInsert;
+export type PositionEvaluation = typeof positionEvaluations.$inferSelect;
+export type InsertPositionEvaluation = typeof positionEvaluations.$inferInsert;
+export type Rating = typeof ratings.$inferSelect;
+export type InsertRating = typeof ratings.$inferInsert;
+export type RatingChange = typeof ratingChanges.$inferSelect;
+export type InsertRatingChange = typeof ratingChanges.$inferInsert;
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import type { Game } from "./schema";
+
+// 'allowed' takes back as often as asked, 'limited' up to takebackLimit times per game
+export const takebackPolicySchema = z.enum(["allowed", "limited", "disabled"]);
+
+export const takebackSettingsSchema = z.object({
+  policy: takebackPolicySchema.default("allowed"),
+  limit: z.number().int().min(1).max(50).optional(),
+}).superRefine((settings, ctx) => {
+  if (settings.policy === "limited" && settings.limit === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["limit"], message: "A limited takeback policy needs a limit" });
+  }
+});
+
+export type TakebackPolicy = z.infer<typeof takebackPolicySchema>;
+export type TakebackSettings = z.infer<typeof takebackSettingsSchema>;
+
+/**
+ * Takebacks the player may still ask for, or null when there is no limit.
+ * Rated games never allow them, whatever the policy says.
+ */
+export function getTakebacksLeft(game: Pick<Game, "rated" | "takebackPolicy" | "takebackLimit" | "takebacksUsed">): number | null {
+  if (game.rated || game.takebackPolicy === "disabled") return 0;
+  if (game.takebackPolicy === "limited") {
+    return Math.max(0, (game.takebackLimit ?? 0) - (game.takebacksUsed ?? 0));
+  }
+  return null;
+}
@@ -0,0 +1,132 @@
+import { z } from "zod";
+
+// One period of a time control, e.g. "40 moves in 90 minutes"
+export const timeControlStageSchema = z.object({
+  moves: z.number().int().min(1).max(200).optional(), // moves to complete in this stage; omitted for the last stage
+  time: z.number().int().min(0).max(6 * 60 * 60), // seconds added to the clock when the stage begins
+  increment: z.number().min(0).max(180).default(0), // Fischer increment, seconds added after every move
+  delay: z.number().min(0).max(180).default(0), // seconds each move may take before the clock is charged
+});
+
+export const timeControlSchema = z.object({
+  stages: z.array(timeControlStageSchema).min(1).max(3),
+  // 'simple' (US) delay holds the clock for the delay; 'bronstein' gives back the time used, up to the delay
+  delayMode: z.enum(["simple", "bronstein"]).default("simple"),
+}).superRefine((control, ctx) => {
+  control.stages.forEach((stage, index) => {
+    const isLast = index === control.stages.length - 1;
+    if (!isLast && stage.moves === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stages", index, "moves"], message: "Only the last stage may omit its move count" });
+    }
+    if (isLast && stage.moves !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stages", index, "moves"], message: "The last stage lasts for the rest of the game" });
+    }
+  });
+  if (control.stages[0].time <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["stages", 0, "time"], message: "The first stage needs some time on the clock" });
+  }
+});
+
+export type TimeControlStage = z.infer<typeof timeControlStageSchema>;
+export type TimeControl = z.infer<typeof timeControlSchema>;
+
+export const timeControlCategorySchema = z.enum(["bullet", "blitz", "rapid", "classical"]);
+export type TimeControlCategory = z.infer<typeof timeControlCategorySchema>;
+
+export interface TimeControlPreset {
+  id: string;
+  name: string;
+  timeControl: TimeControl;
+}
+
+function minutesPlus(minutes: number, increment: number = 0): TimeControl {
+  return { stages: [{ time: minutes * 60, increment, delay: 0 }], delayMode: "simple" };
+}
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: "1+0", name: "1+0 Bullet", timeControl: minutesPlus(1) },
+  { id: "2+1", name: "2+1 Bullet", timeControl: minutesPlus(2, 1) },
+  { id: "3+2", name: "3+2 Blitz", timeControl: minutesPlus(3, 2) },
+  { id: "5+0", name: "5+0 Blitz", timeControl: minutesPlus(5) },
+  { id: "5d5", name: "5 min, 5s delay", timeControl: { stages: [{ time: 300, increment: 0, delay: 5 }], delayMode: "simple" } },
+  { id: "10+5", name: "10+5 Rapid", timeControl: minutesPlus(10, 5) },
+  { id: "15+0", name: "15+0 Rapid", timeControl: minutesPlus(15) },
+  { id: "15+10", name: "15+10 Rapid", timeControl: minutesPlus(15, 10) },
+  { id: "30+0", name: "30+0 Classical", timeControl: minutesPlus(30) },
+  {
+    id: "40/90+30",
+    name: "40/90, 30 min +30",
+    timeControl: {
+      stages: [
+        { moves: 40, time: 90 * 60, increment: 30, delay: 0 },
+        { time: 30 * 60, increment: 30, delay: 0 },
+      ],
+      delayMode: "simple",
+    },
+  },
+];
+
+// Matches the 15 minute clock games had before time controls were configurable
+export const DEFAULT_TIME_CONTROL_PRESET = "15+0";
+
+export function getTimeControlPreset(id: string): TimeControlPreset | undefined {
+  return TIME_CONTROL_PRESETS.find(preset => preset.id === id);
+}
+
+/**
+ * Validate a time control as the API accepts it: a preset id or a full control.
+ */
+export function parseTimeControl(input: unknown) {
+  const preset = typeof input === "string" ? getTimeControlPreset(input) : undefined;
+  return timeControlSchema.safeParse(preset ? preset.timeControl : input);
+}
+
+/**
+ * Classify by the expected length of a 40 move game per side, the way most
+ * servers split bullet, blitz, rapid and classical.
+ */
+export function getTimeControlCategory(control: TimeControl): TimeControlCategory {
+  const first = control.stages[0];
+  const estimate = first.time + 40 * (first.increment + first.delay);
+  if (estimate < 180) return "bullet";
+  if (estimate < 480) return "blitz";
+  if (estimate < 1500) return "rapid";
+  return "classical";
+}
+
+/**
+ * The stage a player is in after making `movesMade` moves.
+ */
+export function getStageIndex(control: TimeControl, movesMade: number): number {
+  let movesBefore = 0;
+  for (let i = 0; i < control.stages.length - 1; i++) {
+    movesBefore += control.stages[i].moves!;
+    if (movesMade < movesBefore) return i;
+  }
+  return control.stages.length - 1;
+}
+
+/**
+ * Moves left before the next stage begins, or null in the last stage.
+ */
+export function getMovesToGo(control: TimeControl, movesMade: number): number | null {
+  let stageEnd = 0;
+  for (let i = 0; i < control.stages.length - 1; i++) {
+    stageEnd += control.stages[i].moves!;
+    if (movesMade < stageEnd) return stageEnd - movesMade;
+  }
+  return null;
+}
+
+/**
+ * Short human-readable form, e.g. "3+2", "5 d5" or "40/90+30, 30+30".
+ */
+export function formatTimeControl(control: TimeControl): string {
+  return control.stages.map(stage => {
+    const minutes = stage.time % 60 === 0 ? `${stage.time / 60}` : `${(stage.time / 60).toFixed(1)}`;
+    let text = stage.moves ? `${stage.moves}/${minutes}` : minutes;
+    if (stage.increment) text += `+${stage.increment}`;
+    if (stage.delay) text += ` d${stage.delay}`;
+    return text;
+  }).join(", ");
+}